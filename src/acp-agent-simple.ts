@@ -1,12 +1,55 @@
 import { KodeIntegration } from './kode-integration.ts';
 import { MultiModelManager } from './multi-model.ts';
-import { KodeACPConfig, KodeSession, KodeToolCall } from './types.ts';
+import {
+  ACPPlanEntry,
+  ACPSessionUpdate,
+  ACPToolCallContent,
+  ACPToolInfo,
+  KodeACPConfig,
+  KodeSession,
+  KodeToolCall,
+  KodeToolResult,
+  ToolFileSystem,
+} from './types.ts';
 import { log, generateSessionId } from './utils.ts';
-
-export interface SimpleACPMessage {
-  type: string;
-  [key: string]: any;
-}
+import { withLogContext } from './logger.ts';
+import { ACPToolConverter, PermissionDecision, toolMappingFromConfig } from './tool-converter.ts';
+import { SessionEvent, SessionManager } from './session-manager.ts';
+import { readTextFile } from './builtin-tools.ts';
+import { createPathSandbox } from './path-sandbox.ts';
+import { CommandPolicy, CommandPolicyDecision } from './command-policy.ts';
+import { OutputBuffer, processManager } from './process-manager.ts';
+import { changeLocation, diffContent, FileChange, getToolInfo, isFileChangeTool, previewFileChange } from './tool-info.ts';
+import type { ModelContentBlock } from './model-providers.ts';
+import {
+  ACP_PROTOCOL_VERSION,
+  AGENT_METHODS,
+  CLIENT_METHODS,
+  JsonRpcMessage,
+  JsonRpcPeer,
+  JsonRpcResponse,
+  RpcError,
+  createErrorResponse,
+  createResponse,
+  isJsonRpcNotification,
+  isJsonRpcRequest,
+  isJsonRpcResponse,
+} from './jsonrpc.ts';
+
+// Messages on the wire are JSON-RPC 2.0 requests, responses and notifications
+export type SimpleACPMessage = JsonRpcMessage;
+
+// Streamed command output: how often it is sent and how much of it is shown
+const OUTPUT_UPDATE_INTERVAL_MS = 100;
+const MAX_STREAMED_OUTPUT = 64 * 1024;
+
+// Options offered to the client in session/request_permission; ids match PermissionDecision
+const PERMISSION_OPTIONS: Array<{ optionId: PermissionDecision; name: string; kind: PermissionDecision }> = [
+  { optionId: 'allow_once', name: 'Allow', kind: 'allow_once' },
+  { optionId: 'allow_always', name: 'Always allow', kind: 'allow_always' },
+  { optionId: 'reject_once', name: 'Reject', kind: 'reject_once' },
+  { optionId: 'reject_always', name: 'Always reject', kind: 'reject_always' },
+];
 
 export interface SimpleACPConnection {
   send(message: SimpleACPMessage): Promise<void>;
@@ -17,11 +60,18 @@ export class KodeAcpAgentSimple {
   private connection: SimpleACPConnection;
   private kodeIntegration: KodeIntegration;
   private multiModelManager: MultiModelManager;
-  private sessions: Map<string, KodeSession> = new Map();
+  private sessionManager: SessionManager;
+  private toolConverter: ACPToolConverter;
   private config: KodeACPConfig;
+  private peer: JsonRpcPeer;
+  // Bash rules for sessions in the `safe` permission mode
+  private commandPolicy: CommandPolicy;
+  // From the client's initialize request
+  private clientCapabilities: any = {};
 
   constructor(connection: SimpleACPConnection, config: KodeACPConfig = {}) {
     this.connection = connection;
+    this.peer = new JsonRpcPeer((message) => this.connection.send(message));
     this.config = {
       workingDirectory: process.cwd(),
       permissionMode: 'yolo',
@@ -30,6 +80,20 @@ export class KodeAcpAgentSimple {
     };
     this.kodeIntegration = new KodeIntegration(this.config);
     this.multiModelManager = new MultiModelManager(this.config);
+    this.sessionManager = new SessionManager({ sessionTimeout: this.config.sessionTimeout });
+    // A session's shells and todos go away with the session
+    this.sessionManager.on('session_event', (event: SessionEvent) => {
+      if (event.type === 'destroyed') {
+        processManager.closePersistentShell(event.sessionId);
+        processManager.closeBackgroundShells(event.sessionId);
+        this.kodeIntegration.releaseSession(event.sessionId);
+      }
+    });
+    this.commandPolicy = new CommandPolicy(this.config.commandPolicy);
+    this.toolConverter = new ACPToolConverter();
+    for (const [name, mapping] of Object.entries(this.config.toolMappings || {})) {
+      this.toolConverter.addMapping(toolMappingFromConfig(name, mapping));
+    }
   }
 
   async initialize(): Promise<void> {
@@ -42,161 +106,638 @@ export class KodeAcpAgentSimple {
     }
   }
 
-  async handleMessage(message: SimpleACPMessage): Promise<SimpleACPMessage | void> {
-    switch (message.type) {
-      case 'initialize':
-        return this.handleInitialize(message);
-      case 'new_session':
-        return this.handleNewSession(message);
-      case 'prompt':
-        return this.handlePrompt(message);
-      case 'tool_call':
-        return this.handleToolCall(message);
-      case 'model_command':
-        return this.handleModelCommand(message);
-      case 'list_models':
-        return this.handleListModels(message);
+  async handleMessage(message: SimpleACPMessage): Promise<JsonRpcResponse | void> {
+    // Everything logged while handling the message carries its request and session ids
+    const params = (message as any).params;
+    return withLogContext(
+      {
+        requestId: isJsonRpcRequest(message) ? message.id : undefined,
+        sessionId: typeof params?.sessionId === 'string' ? params.sessionId : undefined,
+      },
+      () => this.dispatchMessage(message)
+    );
+  }
+
+  private async dispatchMessage(message: SimpleACPMessage): Promise<JsonRpcResponse | void> {
+    if (isJsonRpcResponse(message)) {
+      this.peer.handleResponse(message);
+      return;
+    }
+
+    if (isJsonRpcRequest(message)) {
+      try {
+        const result = await this.handleRequest(message.method, message.params || {});
+        return createResponse(message.id, result);
+      } catch (error) {
+        if (!(error instanceof RpcError)) {
+          log('error', `Request ${message.method} failed:`, error);
+        }
+        return createErrorResponse(message.id, error);
+      }
+    }
+
+    if (isJsonRpcNotification(message)) {
+      try {
+        await this.handleNotification(message.method, message.params);
+      } catch (error) {
+        log('error', `Notification ${message.method} failed:`, error);
+      }
+      return;
+    }
+
+    return createErrorResponse(null, RpcError.invalidRequest());
+  }
+
+  private async handleRequest(method: string, params: any): Promise<any> {
+    switch (method) {
+      case AGENT_METHODS.initialize:
+        return this.handleInitialize(params);
+      case AGENT_METHODS.authenticate:
+        return {};
+      case AGENT_METHODS.session_new:
+        return this.handleNewSession(params);
+      case AGENT_METHODS.session_prompt:
+        return this.handlePrompt(params);
+      case AGENT_METHODS.session_set_mode:
+        return this.handleSetMode(params);
+      case AGENT_METHODS.session_set_model:
+        return this.handleSetModel(params);
+      case AGENT_METHODS.kode_tool_call:
+        return this.handleToolCall(params);
+      case AGENT_METHODS.kode_model_command:
+        return this.handleModelCommand(params);
+      case AGENT_METHODS.kode_list_models:
+        return this.handleListModels();
+      default:
+        log('warn', `Unknown method: ${method}`);
+        throw RpcError.methodNotFound(method);
+    }
+  }
+
+  private async handleNotification(method: string, params: any): Promise<void> {
+    switch (method) {
+      case AGENT_METHODS.session_cancel:
+        return this.handleCancel(params || {});
       default:
-        log('warn', `Unknown message type: ${message.type}`);
-        return {
-          type: 'error',
-          error: `Unknown message type: ${message.type}`,
-        };
+        log('warn', `Unknown notification: ${method}`);
     }
   }
 
-  private async handleInitialize(message: SimpleACPMessage): Promise<SimpleACPMessage> {
+  private async handleInitialize(params: any): Promise<any> {
+    this.clientCapabilities = params.clientCapabilities || {};
+
     return {
-      type: 'initialize_response',
-      protocolVersion: 1,
-      capabilities: {
-        tools: true,
-        multiModel: true,
-        fileOperations: true,
-        bashCommands: true,
+      protocolVersion: ACP_PROTOCOL_VERSION,
+      agentCapabilities: {
+        loadSession: false,
+        promptCapabilities: {
+          image: false,
+          audio: false,
+          embeddedContext: true,
+        },
+      },
+      authMethods: [],
+      _meta: {
+        kode: {
+          multiModel: true,
+          availableModels: this.multiModelManager.getAvailableModelNames(),
+        },
       },
-      availableModels: this.multiModelManager.getAvailableModelNames(),
     };
   }
 
-  private async handleNewSession(message: SimpleACPMessage): Promise<SimpleACPMessage> {
-    const sessionId = generateSessionId();
-    const session: KodeSession = {
-      id: sessionId,
-      workingDirectory: this.config.workingDirectory || process.cwd(),
-      cancelled: false,
+  private async handleNewSession(params: any): Promise<any> {
+    const sessionId = await this.sessionManager.createSession({
+      workingDirectory: params.cwd || this.config.workingDirectory || process.cwd(),
       permissionMode: this.config.permissionMode || 'yolo',
-    };
-
-    this.sessions.set(sessionId, session);
-    log('info', `New session created: ${sessionId}`);
+      maxToolCalls: this.config.maxToolCalls,
+    });
+    const session = await this.getSessionOrThrow(sessionId);
 
     return {
-      type: 'new_session_response',
       sessionId,
+      modes: {
+        currentModeId: session.mode,
+        availableModes: this.sessionManager.getAvailableModes().map(mode => ({
+          id: mode.name,
+          name: mode.name,
+          description: mode.description,
+        })),
+      },
     };
   }
 
-  private async handlePrompt(message: SimpleACPMessage): Promise<SimpleACPMessage> {
-    const { sessionId, prompt } = message;
+  private async handlePrompt(params: any): Promise<any> {
+    const { sessionId, prompt } = params;
 
-    if (!sessionId || !prompt) {
-      return {
-        type: 'error',
-        error: 'Missing sessionId or prompt',
-      };
+    if (!sessionId || !Array.isArray(prompt)) {
+      throw RpcError.invalidParams('Missing sessionId or prompt');
     }
 
-    const session = this.sessions.get(sessionId);
-    if (!session) {
-      return {
-        type: 'error',
-        error: `Session not found: ${sessionId}`,
-      };
+    const session = await this.getSessionOrThrow(sessionId);
+    if (session.abortController) {
+      throw RpcError.invalidRequest(`A prompt is already running in session ${sessionId}`);
     }
+    session.cancelled = false;
+    session.abortController = new AbortController();
 
-    if (session.cancelled) {
-      return {
-        type: 'error',
-        error: 'Session was cancelled',
-      };
+    const promptText = promptToText(prompt);
+    const updates = this.createUpdateQueue(sessionId);
+
+    try {
+      const stopReason = await this.runAgentLoop(session, promptText, updates, session.abortController.signal);
+      await updates.flush();
+      return { stopReason };
+    } catch (error) {
+      await updates.flush();
+      // Aborting the model request surfaces as an error; the turn itself ended normally
+      if (session.cancelled) {
+        return { stopReason: 'cancelled' };
+      }
+      log('error', 'Model execution failed:', error);
+      throw RpcError.internalError(`Model execution failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      session.abortController = null;
     }
+  }
+
+  // Run model turns until the model stops requesting tools, the turn is cancelled or the
+  // session's tool call budget is spent. Returns the ACP stop reason.
+  private async runAgentLoop(
+    session: KodeSession,
+    promptText: string,
+    updates: { push(update: ACPSessionUpdate): void },
+    signal: AbortSignal
+  ): Promise<string> {
+    const tools = await this.kodeIntegration.getToolDefinitions();
+    let toolCallCount = 0;
+
+    session.messages.push({ role: 'user', content: promptText });
+
+    while (true) {
+      const response = await this.multiModelManager.createMessage(session.messages, session.model, {
+        systemPrompt: buildSystemPrompt(session),
+        tools,
+        signal,
+        onText: (chunk) => {
+          if (!session.cancelled) {
+            updates.push({ sessionUpdate: 'agent_message_chunk', content: { type: 'text', text: chunk } });
+          }
+        },
+        onThinking: (chunk) => {
+          if (!session.cancelled) {
+            updates.push({ sessionUpdate: 'agent_thought_chunk', content: { type: 'text', text: chunk } });
+          }
+        },
+      });
+
+      // Thinking blocks are streamed to the client but not replayed to the model
+      session.messages.push({
+        role: 'assistant',
+        content: response.content.filter(block => block.type !== 'thinking'),
+      });
+
+      const toolUses = response.content.filter(
+        (block): block is Extract<ModelContentBlock, { type: 'tool_use' }> => block.type === 'tool_use'
+      );
+
+      if (session.cancelled) {
+        this.closePendingToolUses(session, toolUses, 'Cancelled by user');
+        return 'cancelled';
+      }
+      if (toolUses.length === 0) {
+        return response.stopReason === 'max_tokens' || response.stopReason === 'refusal'
+          ? response.stopReason
+          : 'end_turn';
+      }
+
+      const results: ModelContentBlock[] = [];
+      for (const toolUse of toolUses) {
+        if (session.cancelled || toolCallCount >= session.maxToolCalls) {
+          break;
+        }
+        toolCallCount++;
+        await this.sessionManager.incrementToolCall(session.id);
+
+        const result = await this.executeToolWithUpdates(session.id, {
+          name: toolUse.name,
+          input: toolUse.input,
+          id: toolUse.id,
+        }, signal).catch((error): KodeToolResult => ({
+          type: 'tool_result',
+          content: error instanceof Error ? error.message : String(error),
+          tool_use_id: toolUse.id,
+          is_error: true,
+        }));
+
+        results.push({
+          type: 'tool_result',
+          tool_use_id: toolUse.id,
+          content: toolResultToText(result),
+          is_error: result.is_error,
+        });
+      }
+
+      session.messages.push({ role: 'user', content: results });
+
+      if (session.cancelled) {
+        this.closePendingToolUses(session, toolUses, 'Cancelled by user');
+        return 'cancelled';
+      }
+      if (results.length < toolUses.length) {
+        log('warn', `Session ${session.id} reached its tool call budget (${session.maxToolCalls})`);
+        this.closePendingToolUses(session, toolUses, `Tool call budget of ${session.maxToolCalls} exhausted`);
+        return 'max_turn_requests';
+      }
+    }
+  }
+
+  // Every tool_use in the history needs a matching tool_result, or the next turn is rejected
+  private closePendingToolUses(
+    session: KodeSession,
+    toolUses: Array<Extract<ModelContentBlock, { type: 'tool_use' }>>,
+    reason: string
+  ): void {
+    let last = session.messages[session.messages.length - 1];
+    if (last.role !== 'user' || typeof last.content === 'string') {
+      last = { role: 'user', content: [] };
+      session.messages.push(last);
+    }
+
+    const blocks = last.content as ModelContentBlock[];
+    const answered = new Set(
+      blocks.filter(block => block.type === 'tool_result').map(block => (block as any).tool_use_id)
+    );
+    for (const toolUse of toolUses) {
+      if (!answered.has(toolUse.id)) {
+        blocks.push({ type: 'tool_result', tool_use_id: toolUse.id, content: reason, is_error: true });
+      }
+    }
+  }
+
+  private async handleCancel(params: any): Promise<void> {
+    const session = await this.sessionManager.getSession(params.sessionId);
+    if (session) {
+      session.cancelled = true;
+      // Stops the model request and any running tool (including Bash children)
+      session.abortController?.abort();
+      log('info', `Session cancelled: ${session.id}`);
+    }
+  }
+
+  private async handleSetMode(params: any): Promise<any> {
+    const { sessionId, modeId } = params;
+    await this.getSessionOrThrow(sessionId);
+
+    if (!this.sessionManager.getAvailableModes().some(mode => mode.name === modeId)) {
+      throw RpcError.invalidParams(`Unknown mode: ${modeId}`);
+    }
+
+    await this.sessionManager.updateSession(sessionId, {
+      mode: modeId,
+      permissionMode: modeId === 'bypass_permissions' ? 'yolo' : 'safe',
+    });
+    return {};
+  }
+
+  // Changes the model of one session; other sessions keep theirs
+  private async handleSetModel(params: any): Promise<any> {
+    const { sessionId, modelId } = params;
+    if (!sessionId) {
+      throw RpcError.invalidParams('Missing sessionId');
+    }
+
+    const session = await this.getSessionOrThrow(sessionId);
+    if (!modelId || !this.multiModelManager.getModelProfile(modelId)) {
+      throw RpcError.invalidParams(`Model not found: ${modelId}`);
+    }
+    session.model = modelId;
+    return {};
+  }
+
+  private async handleToolCall(params: any): Promise<any> {
+    const { sessionId, toolCall } = params;
+
+    if (!sessionId || !toolCall) {
+      throw RpcError.invalidParams('Missing sessionId or toolCall');
+    }
+
+    await this.getSessionOrThrow(sessionId);
+
+    // ACP tool names (read_file, run_command, configured mappings) are translated to Kode tools,
+    // and their results back to the ACP tool's shape
+    const converted = this.toolConverter.getSupportedTools().includes(toolCall.name)
+      ? this.toolConverter.convertToKode(toolCall, sessionId)
+      : null;
+    const kodeToolCall: KodeToolCall = converted || {
+      name: toolCall.name,
+      input: toolCall.input,
+      id: toolCall.id || generateSessionId(),
+    };
 
     try {
-      // Use the current model to generate a response
-      const currentModel = this.multiModelManager.getCurrentModelProfile();
-      const response = await this.multiModelManager.executeWithModel(prompt);
+      const result = await this.executeToolWithUpdates(sessionId, kodeToolCall);
 
       return {
-        type: 'prompt_response',
         sessionId,
-        response: {
-          type: 'text',
-          text: `[${currentModel?.name || 'Unknown'}] ${response}`,
-          model: currentModel?.name || 'Unknown',
-        },
+        toolCallId: kodeToolCall.id,
+        result: converted ? this.toolConverter.convertFromKode(result, sessionId) : result,
       };
     } catch (error) {
-      log('error', 'Model execution failed:', error);
-      return {
-        type: 'error',
-        error: `Model execution failed: ${error instanceof Error ? error.message : String(error)}`,
-      };
+      if (converted) {
+        this.toolConverter.discardCall(kodeToolCall.id!, sessionId);
+      }
+      log('error', 'Tool call failed:', error);
+      throw RpcError.internalError(`Tool call failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  private async handleToolCall(message: SimpleACPMessage): Promise<SimpleACPMessage> {
-    const { sessionId, toolCall } = message;
+  // Execute a tool while reporting its lifecycle to the client as tool_call updates
+  private executeToolWithUpdates(
+    sessionId: string,
+    toolCall: KodeToolCall,
+    signal?: AbortSignal
+  ): Promise<KodeToolResult> {
+    return withLogContext({ sessionId, toolName: toolCall.name }, () =>
+      this.runToolWithUpdates(sessionId, toolCall, signal)
+    );
+  }
 
-    if (!sessionId || !toolCall) {
-      return {
-        type: 'error',
-        error: 'Missing sessionId or toolCall',
-      };
+  private async runToolWithUpdates(
+    sessionId: string,
+    toolCall: KodeToolCall,
+    signal?: AbortSignal
+  ): Promise<KodeToolResult> {
+    const toolCallId = toolCall.id!;
+    const session = await this.sessionManager.getSession(sessionId);
+    const workingDirectory = session?.workingDirectory || this.config.workingDirectory!;
+    const fileSystem = this.clientFileSystem(sessionId);
+
+    // Writes and edits carry the diff they will make, so the client can show it for review
+    const info = getToolInfo(toolCall, workingDirectory);
+    const change = await this.previewToolChange(toolCall, workingDirectory, fileSystem);
+    if (change) {
+      info.content = [diffContent(change)];
+      info.locations = [changeLocation(change)];
     }
 
-    const session = this.sessions.get(sessionId);
-    if (!session) {
+    await this.sendSessionUpdate(sessionId, {
+      sessionUpdate: 'tool_call',
+      toolCallId,
+      title: info.title,
+      kind: info.kind,
+      status: 'pending',
+      content: info.content,
+      locations: info.locations,
+      rawInput: toolCall.input,
+    });
+
+    const policy = session?.permissionMode === 'safe' ? this.checkCommandPolicy(toolCall) : null;
+    if (policy?.action === 'ask') {
+      info.content = [...info.content, toolText(policy.reason)];
+    }
+
+    if (policy?.action === 'deny' || !(await this.checkToolPermission(sessionId, toolCall, info, policy))) {
+      const message = policy?.action === 'deny'
+        ? `Command denied: ${policy.reason}`
+        : `Permission to run ${toolCall.name} was denied`;
+      await this.sendSessionUpdate(sessionId, {
+        sessionUpdate: 'tool_call_update',
+        toolCallId,
+        status: 'failed',
+        content: [toolText(message)],
+      });
       return {
-        type: 'error',
-        error: `Session not found: ${sessionId}`,
+        type: 'tool_result',
+        content: message,
+        tool_use_id: toolCallId,
+        is_error: true,
       };
     }
 
+    await this.sendSessionUpdate(sessionId, {
+      sessionUpdate: 'tool_call_update',
+      toolCallId,
+      status: 'in_progress',
+    });
+
+    const output = this.createOutputStream(sessionId, toolCallId);
+    let result: KodeToolResult;
     try {
-      const kodeToolCall: KodeToolCall = {
-        name: toolCall.name,
-        input: toolCall.input,
-        id: toolCall.id || generateSessionId(),
-      };
+      result = await this.kodeIntegration.executeTool(toolCall, {
+        sessionId,
+        workingDirectory,
+        signal,
+        fileSystem,
+        onOutput: output.append,
+      });
+    } catch (error) {
+      await output.flush();
+      await this.sendSessionUpdate(sessionId, {
+        sessionUpdate: 'tool_call_update',
+        toolCallId,
+        status: 'failed',
+        content: [toolText(error instanceof Error ? error.message : String(error))],
+      });
+      throw error;
+    }
+    await output.flush();
+
+    await this.sendSessionUpdate(sessionId, {
+      sessionUpdate: 'tool_call_update',
+      toolCallId,
+      status: result.is_error ? 'failed' : 'completed',
+      content: [...(result.is_error ? [] : info.content), toolText(toolResultToText(result))],
+      locations: info.locations,
+      rawOutput: result,
+    });
+
+    if (toolCall.name === 'TodoWrite' && !result.is_error && Array.isArray(toolCall.input?.todos)) {
+      await this.sendSessionUpdate(sessionId, {
+        sessionUpdate: 'plan',
+        entries: toolCall.input.todos.map((todo: any): ACPPlanEntry => ({
+          content: todo.content,
+          priority: todo.priority || 'medium',
+          status: todo.status || 'pending',
+        })),
+      });
+    }
 
-      // Execute the tool
-      const result = await this.kodeIntegration.executeTool(kodeToolCall);
+    return result;
+  }
 
-      return {
-        type: 'tool_call_response',
+  // Commands the policy allows skip the client prompt; the session's mode and earlier
+  // decisions still apply
+  private async checkToolPermission(
+    sessionId: string,
+    toolCall: KodeToolCall,
+    info: ACPToolInfo,
+    policy: CommandPolicyDecision | null
+  ): Promise<boolean> {
+    // Commands checked by the policy remember "always" answers per command line, so allowing
+    // `git status` does not also allow a later command the policy asks about
+    const key = policy ? `${toolCall.name}:${String(toolCall.input?.command ?? '').trim()}` : undefined;
+    return this.sessionManager.checkToolPermission(sessionId, toolCall.name, toolCall.input, async () =>
+      policy?.action === 'allow' ? 'allow_once' : this.requestClientPermission(sessionId, toolCall, info),
+      key
+    );
+  }
+
+  // Foreground and background Bash commands are checked against the command policy
+  private checkCommandPolicy(toolCall: KodeToolCall): CommandPolicyDecision | null {
+    if (toolCall.name !== 'Bash') {
+      return null;
+    }
+    const decision = this.commandPolicy.evaluate(String(toolCall.input?.command ?? ''));
+    log('debug', `Command policy: ${decision.action} (${decision.reason})`);
+    return decision;
+  }
+
+  // The change a write or edit tool is about to make; null when it cannot be worked out
+  private async previewToolChange(
+    toolCall: KodeToolCall,
+    workingDirectory: string,
+    fileSystem?: ToolFileSystem
+  ): Promise<FileChange | null> {
+    if (!isFileChangeTool(toolCall.name)) {
+      return null;
+    }
+
+    try {
+      const filePath = createPathSandbox(this.config, workingDirectory).resolve(toolCall.input?.file_path);
+      return await previewFileChange(toolCall, filePath, (path) => readTextFile(path, fileSystem));
+    } catch (error) {
+      // The tool itself reports bad paths
+      log('debug', `Could not preview ${toolCall.name}:`, error);
+      return null;
+    }
+  }
+
+  // Ask the client through session/request_permission; a cancelled or failed request counts as no decision
+  private async requestClientPermission(
+    sessionId: string,
+    toolCall: KodeToolCall,
+    info: ACPToolInfo
+  ): Promise<PermissionDecision | null> {
+    try {
+      const response = await this.peer.request(CLIENT_METHODS.session_request_permission, {
         sessionId,
-        toolCallId: kodeToolCall.id,
-        result,
-      };
+        toolCall: {
+          toolCallId: toolCall.id,
+          title: info.title,
+          kind: info.kind,
+          status: 'pending',
+          content: info.content,
+          locations: info.locations,
+          rawInput: toolCall.input,
+        },
+        options: PERMISSION_OPTIONS,
+      });
+
+      if (response?.outcome?.outcome !== 'selected') {
+        return null;
+      }
+      const option = PERMISSION_OPTIONS.find(option => option.optionId === response.outcome.optionId);
+      return option ? option.kind : null;
     } catch (error) {
-      log('error', 'Tool call failed:', error);
-      return {
-        type: 'error',
-        error: `Tool call failed: ${error instanceof Error ? error.message : String(error)}`,
+      log('warn', `Permission request for ${toolCall.name} failed:`, error);
+      return null;
+    }
+  }
+
+  // File access through fs/read_text_file and fs/write_text_file, for the methods the client offers
+  private clientFileSystem(sessionId: string): ToolFileSystem | undefined {
+    const fs = this.clientCapabilities.fs || {};
+    if (!fs.readTextFile && !fs.writeTextFile) {
+      return undefined;
+    }
+
+    const fileSystem: ToolFileSystem = {};
+    if (fs.readTextFile) {
+      fileSystem.readTextFile = async (path, range = {}) => {
+        const response = await this.peer.request(CLIENT_METHODS.fs_read_text_file, {
+          sessionId,
+          path,
+          line: range.line,
+          limit: range.limit,
+        });
+        return typeof response?.content === 'string' ? response.content : '';
       };
     }
+    if (fs.writeTextFile) {
+      fileSystem.writeTextFile = async (path, content) => {
+        await this.peer.request(CLIENT_METHODS.fs_write_text_file, { sessionId, path, content });
+      };
+    }
+    return fileSystem;
+  }
+
+  private async getSessionOrThrow(sessionId: string): Promise<KodeSession> {
+    const session = await this.sessionManager.getSession(sessionId);
+    if (!session) {
+      throw RpcError.invalidParams(`Session not found: ${sessionId}`);
+    }
+    return session;
+  }
+
+  private async sendSessionUpdate(sessionId: string, update: ACPSessionUpdate): Promise<void> {
+    await this.peer.notify(CLIENT_METHODS.session_update, { sessionId, update });
+  }
+
+  // Serialize updates produced by synchronous streaming callbacks so they reach the
+  // client in order and before the prompt response
+  private createUpdateQueue(sessionId: string): { push(update: ACPSessionUpdate): void; flush(): Promise<void> } {
+    let tail: Promise<void> = Promise.resolve();
+
+    return {
+      push: (update) => {
+        tail = tail
+          .then(() => this.sendSessionUpdate(sessionId, update))
+          .catch((error) => log('error', 'Failed to send session update:', error));
+      },
+      flush: () => tail,
+    };
   }
 
-  private async handleModelCommand(message: SimpleACPMessage): Promise<SimpleACPMessage> {
-    const { command, modelName } = message;
+  // Show output of a running command as in_progress updates, batched so a chatty command
+  // sends at most one update per interval
+  private createOutputStream(sessionId: string, toolCallId: string): { append(chunk: string): void; flush(): Promise<void> } {
+    const output = new OutputBuffer(MAX_STREAMED_OUTPUT);
+    const queue = this.createUpdateQueue(sessionId);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const send = () => {
+      timer = undefined;
+      queue.push({
+        sessionUpdate: 'tool_call_update',
+        toolCallId,
+        status: 'in_progress',
+        content: [toolText(output.toString())],
+      });
+    };
+
+    return {
+      append: (chunk) => {
+        output.append(chunk);
+        timer ??= setTimeout(send, OUTPUT_UPDATE_INTERVAL_MS);
+      },
+      // The final update replaces the streamed output, so a pending batch is dropped
+      flush: () => {
+        clearTimeout(timer);
+        timer = undefined;
+        return queue.flush();
+      },
+    };
+  }
+
+  private async handleModelCommand(params: any): Promise<any> {
+    const { command, modelName } = params;
 
     switch (command) {
       case 'switch':
         if (modelName && this.multiModelManager.getModelProfile(modelName)) {
           this.multiModelManager.setCurrentModel(modelName);
           return {
-            type: 'model_response',
             success: true,
             message: `Switched to model: ${modelName}`,
             currentModel: modelName,
@@ -204,7 +745,6 @@ export class KodeAcpAgentSimple {
         } else {
           const availableModels = this.multiModelManager.getAvailableModelNames();
           return {
-            type: 'model_response',
             success: false,
             message: `Model not found: ${modelName}`,
             availableModels,
@@ -212,50 +752,36 @@ export class KodeAcpAgentSimple {
         }
 
       case 'ask':
-        if (!modelName || !message.prompt) {
-          return {
-            type: 'error',
-            error: 'Missing modelName or prompt for ask command',
-          };
+        if (!modelName || !params.prompt) {
+          throw RpcError.invalidParams('Missing modelName or prompt for ask command');
         }
 
         const expertModel = this.multiModelManager.getModelProfile(modelName);
         if (!expertModel) {
-          return {
-            type: 'error',
-            error: `Model not found: ${modelName}`,
-          };
+          throw RpcError.invalidParams(`Model not found: ${modelName}`);
         }
 
         try {
-          const response = await this.multiModelManager.executeWithModel(message.prompt, modelName);
+          const response = await this.multiModelManager.executeWithModel(params.prompt, modelName);
           return {
-            type: 'model_response',
             success: true,
             model: modelName,
             response,
           };
         } catch (error) {
-          return {
-            type: 'error',
-            error: `Expert model call failed: ${error instanceof Error ? error.message : String(error)}`,
-          };
+          throw RpcError.internalError(`Expert model call failed: ${error instanceof Error ? error.message : String(error)}`);
         }
 
       default:
-        return {
-          type: 'error',
-          error: `Unknown model command: ${command}`,
-        };
+        throw RpcError.invalidParams(`Unknown model command: ${command}`);
     }
   }
 
-  private async handleListModels(message: SimpleACPMessage): Promise<SimpleACPMessage> {
+  private async handleListModels(): Promise<any> {
     const models = this.multiModelManager.getAllModelProfiles();
     const currentModel = this.multiModelManager.getCurrentModel();
 
     return {
-      type: 'models_response',
       models: models.map(model => ({
         name: model.name,
         provider: model.provider,
@@ -265,16 +791,67 @@ export class KodeAcpAgentSimple {
     };
   }
 
-  async cleanup(): Promise<void> {
-    // Clean up all sessions
-    for (const session of this.sessions.values()) {
-      session.cancelled = true;
+  // The client closed its side of the connection: nothing will answer permission requests, so
+  // they fail and running turns are cancelled
+  async disconnect(): Promise<void> {
+    this.peer.close('Client disconnected');
+    for (const session of await this.sessionManager.listSessions()) {
+      await this.handleCancel({ sessionId: session.id });
     }
-    this.sessions.clear();
+  }
+
+  async cleanup(): Promise<void> {
+    // Clean up all sessions; destroying a session cancels its running turn
+    await this.sessionManager.destroyAllSessions();
+    this.sessionManager.stop();
+    this.peer.rejectAll('Agent shutting down');
 
     // Clean up Kode integration
     await this.kodeIntegration.cleanup();
 
     log('info', 'Kode ACP agent cleaned up');
   }
+}
+
+// Flatten ACP content blocks into the plain text prompt understood by the models
+function promptToText(prompt: any[]): string {
+  return prompt
+    .map((block) => {
+      if (block.type === 'text') {
+        return block.text;
+      }
+      if (block.type === 'resource' && block.resource?.text !== undefined) {
+        return `<context uri="${block.resource.uri}">\n${block.resource.text}\n</context>`;
+      }
+      if (block.type === 'resource_link') {
+        return `@${block.uri}`;
+      }
+      return '';
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+function toolText(text: string): ACPToolCallContent {
+  return { type: 'content', content: { type: 'text', text } };
+}
+
+function toolResultToText(result: KodeToolResult): string {
+  if (typeof result.content === 'string') {
+    return result.content;
+  }
+  if (Array.isArray(result.content)) {
+    return result.content
+      .map((block: any) => (block?.type === 'text' ? block.text : JSON.stringify(block)))
+      .join('\n');
+  }
+  return JSON.stringify(result.content);
+}
+
+function buildSystemPrompt(session: KodeSession): string {
+  return [
+    'You are Kode, an AI coding agent working inside the user\'s editor.',
+    `The working directory is ${session.workingDirectory}. Prefer absolute paths when calling file tools.`,
+    'Use the available tools to inspect and modify the project, and keep the user informed of what you change.',
+  ].join('\n');
 }
\ No newline at end of file
@@ -0,0 +1,332 @@
+// Streaming SimpleACPConnection transports for the HTTP mode
+// Server-Sent Events (agent -> client only) and WebSocket (both directions)
+
+import { SimpleACPConnection, SimpleACPMessage } from './acp-agent-simple.ts';
+import { log } from './utils.ts';
+import { parseJsonRpcMessage } from './jsonrpc.ts';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_WEBSOCKET_MESSAGE = 16 * 1024 * 1024;
+const SSE_KEEPALIVE_MS = 15000;
+
+// Async iterable of incoming messages fed by a transport
+class MessageQueue {
+  private messages: SimpleACPMessage[] = [];
+  private waiting: ((result: IteratorResult<SimpleACPMessage>) => void) | null = null;
+  private closed: boolean = false;
+
+  push(message: SimpleACPMessage): void {
+    if (this.closed) {
+      return;
+    }
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve({ value: message, done: false });
+    } else {
+      this.messages.push(message);
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve({ value: undefined, done: true });
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<SimpleACPMessage> {
+    while (true) {
+      if (this.messages.length > 0) {
+        yield this.messages.shift()!;
+        continue;
+      }
+      if (this.closed) {
+        return;
+      }
+      const result = await new Promise<IteratorResult<SimpleACPMessage>>((resolve) => {
+        this.waiting = resolve;
+      });
+      if (result.done) {
+        return;
+      }
+      yield result.value;
+    }
+  }
+}
+
+// Server-Sent Events stream. The client sends its messages with `POST /acp`, so receive()
+// yields nothing and ends when the stream closes.
+export class SseConnection implements SimpleACPConnection {
+  private incoming = new MessageQueue();
+  private keepalive: ReturnType<typeof setInterval>;
+  private closed: boolean = false;
+
+  constructor(private write: (chunk: string) => void) {
+    this.write(': connected\n\n');
+    this.keepalive = setInterval(() => this.write(': ping\n\n'), SSE_KEEPALIVE_MS);
+  }
+
+  async send(message: SimpleACPMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error('SSE stream is closed');
+    }
+    this.write(`data: ${JSON.stringify(message)}\n\n`);
+  }
+
+  receive(): AsyncIterable<SimpleACPMessage> {
+    return this.incoming;
+  }
+
+  close(): void {
+    this.closed = true;
+    clearInterval(this.keepalive);
+    this.incoming.close();
+  }
+}
+
+// WebSocket on top of a raw socket that has completed the upgrade handshake
+export class WebSocketConnection implements SimpleACPConnection {
+  private incoming = new MessageQueue();
+  private buffer: Uint8Array = new Uint8Array(0);
+  private fragments: Uint8Array[] = [];
+  private closed: boolean = false;
+
+  constructor(private socket: any) {
+    socket.on('data', (chunk: Uint8Array) => this.onData(chunk));
+    socket.on('close', () => this.onClose());
+    socket.on('error', (error: Error) => {
+      log('debug', 'WebSocket error:', error);
+      this.onClose();
+    });
+  }
+
+  async send(message: SimpleACPMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error('WebSocket is closed');
+    }
+    this.sendFrame(0x1, new TextEncoder().encode(JSON.stringify(message)));
+  }
+
+  receive(): AsyncIterable<SimpleACPMessage> {
+    return this.incoming;
+  }
+
+  close(code: number = 1000): void {
+    if (this.closed) {
+      return;
+    }
+    const payload = new Uint8Array([code >> 8, code & 0xff]);
+    this.sendFrame(0x8, payload);
+    this.onClose();
+    this.socket.end();
+  }
+
+  private onClose(): void {
+    this.closed = true;
+    this.incoming.close();
+  }
+
+  private onData(chunk: Uint8Array): void {
+    const merged = new Uint8Array(this.buffer.length + chunk.length);
+    merged.set(this.buffer);
+    merged.set(chunk, this.buffer.length);
+    this.buffer = merged;
+
+    while (!this.closed) {
+      const frame = readFrame(this.buffer);
+      if (frame === 'too_large') {
+        this.close(1009);
+        return;
+      }
+      if (frame === 'unmasked') {
+        this.close(1002);
+        return;
+      }
+      if (!frame) {
+        break;
+      }
+      this.buffer = this.buffer.subarray(frame.length);
+      this.handleFrame(frame.fin, frame.opcode, frame.payload);
+    }
+  }
+
+  private handleFrame(fin: boolean, opcode: number, payload: Uint8Array): void {
+    switch (opcode) {
+      case 0x0: // continuation
+      case 0x1: // text
+        this.fragments.push(payload);
+        if (this.fragments.reduce((sum, fragment) => sum + fragment.length, 0) > MAX_WEBSOCKET_MESSAGE) {
+          this.close(1009);
+          return;
+        }
+        if (fin) {
+          const text = new TextDecoder().decode(concat(this.fragments));
+          this.fragments = [];
+          this.handleText(text);
+        }
+        return;
+      case 0x8: // close
+        this.close();
+        return;
+      case 0x9: // ping
+        this.sendFrame(0xa, payload);
+        return;
+      case 0xa: // pong
+        return;
+      default:
+        // Binary frames are not part of the protocol
+        this.close(1003);
+    }
+  }
+
+  private handleText(text: string): void {
+    const parsed = parseJsonRpcMessage(text);
+    if (parsed.error) {
+      log('error', 'Rejected invalid WebSocket message:', parsed.error.error?.data);
+      this.send(parsed.error).catch(() => {});
+      return;
+    }
+    this.incoming.push(parsed.message);
+  }
+
+  private sendFrame(opcode: number, payload: Uint8Array): void {
+    let header: Uint8Array;
+    if (payload.length < 126) {
+      header = new Uint8Array([0x80 | opcode, payload.length]);
+    } else if (payload.length < 65536) {
+      header = new Uint8Array([0x80 | opcode, 126, payload.length >> 8, payload.length & 0xff]);
+    } else {
+      header = new Uint8Array(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 127;
+      new DataView(header.buffer).setBigUint64(2, BigInt(payload.length));
+    }
+    this.socket.write(concat([header, payload]));
+  }
+}
+
+// WebSocket backed by a standard WebSocket object (e.g. from Deno.upgradeWebSocket)
+export class StandardWebSocketConnection implements SimpleACPConnection {
+  private incoming = new MessageQueue();
+
+  constructor(private socket: WebSocket) {
+    socket.onmessage = (event) => {
+      if (typeof event.data !== 'string') {
+        // Binary frames are not part of the protocol
+        this.close(1003);
+        return;
+      }
+      const parsed = parseJsonRpcMessage(event.data);
+      if (parsed.error) {
+        log('error', 'Rejected invalid WebSocket message:', parsed.error.error?.data);
+        this.send(parsed.error).catch(() => {});
+        return;
+      }
+      this.incoming.push(parsed.message);
+    };
+    socket.onclose = () => this.incoming.close();
+    socket.onerror = (event) => {
+      log('debug', 'WebSocket error:', event);
+      this.incoming.close();
+    };
+  }
+
+  async send(message: SimpleACPMessage): Promise<void> {
+    if (this.socket.readyState !== WebSocket.OPEN) {
+      throw new Error('WebSocket is closed');
+    }
+    this.socket.send(JSON.stringify(message));
+  }
+
+  receive(): AsyncIterable<SimpleACPMessage> {
+    return this.incoming;
+  }
+
+  close(code: number = 1000): void {
+    this.incoming.close();
+    this.socket.close(code);
+  }
+}
+
+// Complete the WebSocket handshake for a Node.js `upgrade` request. Returns null (after
+// rejecting the request) when it is not a valid WebSocket upgrade.
+export async function acceptWebSocket(req: any, socket: any): Promise<WebSocketConnection | null> {
+  const key = req.headers['sec-websocket-key'];
+  if (String(req.headers.upgrade).toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+    return null;
+  }
+
+  const { createHash } = await import('crypto');
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+
+  return new WebSocketConnection(socket);
+}
+
+// Parse one frame from the start of the buffer; null when more data is needed
+function readFrame(
+  buffer: Uint8Array
+): { fin: boolean; opcode: number; payload: Uint8Array; length: number } | 'too_large' | 'unmasked' | null {
+  if (buffer.length < 2) {
+    return null;
+  }
+
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  // Clients must mask every frame (RFC 6455 section 5.1)
+  if (!masked) {
+    return 'unmasked';
+  }
+  let payloadLength = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (payloadLength === 126) {
+    if (buffer.length < 4) return null;
+    payloadLength = (buffer[2] << 8) | buffer[3];
+    offset = 4;
+  } else if (payloadLength === 127) {
+    if (buffer.length < 10) return null;
+    payloadLength = Number(new DataView(buffer.buffer, buffer.byteOffset + 2, 8).getBigUint64(0));
+    offset = 10;
+  }
+
+  if (payloadLength > MAX_WEBSOCKET_MESSAGE) {
+    return 'too_large';
+  }
+
+  const maskOffset = offset;
+  offset += 4;
+  if (buffer.length < offset + payloadLength) {
+    return null;
+  }
+
+  const payload = buffer.slice(offset, offset + payloadLength);
+  for (let i = 0; i < payload.length; i++) {
+    payload[i] ^= buffer[maskOffset + (i % 4)];
+  }
+
+  return { fin, opcode, payload, length: offset + payloadLength };
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
\ No newline at end of file
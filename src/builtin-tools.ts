@@ -0,0 +1,714 @@
+// Built-in implementations of Kode's tools
+// Used when tools are executed locally rather than by the Kode CLI
+
+import { KodeToolCall, KodeToolResult, KodeACPConfig, ToolExecutionContext, ToolFileSystem } from './types.ts';
+import { getEnv, log } from './utils.ts';
+import { BackgroundShellInfo, executeCommand, processManager, ProcessResult } from './process-manager.ts';
+import { createPathSandbox, PathSandbox, PathSandboxError } from './path-sandbox.ts';
+
+export interface TextEdit {
+  old_string: string;
+  new_string: string;
+  replace_all?: boolean;
+}
+
+export interface TodoItem {
+  id: string;
+  content: string;
+  status: 'pending' | 'in_progress' | 'completed';
+  priority: 'high' | 'medium' | 'low';
+}
+
+const MAX_GREP_RESULTS = 100;
+const MAX_LS_ENTRIES = 1000;
+const IGNORED_DIRECTORIES = ['node_modules', '.git'];
+const DEFAULT_BASH_TIMEOUT = 120000; // 2 minutes
+const MAX_BASH_TIMEOUT = 600000; // 10 minutes
+// Characters kept from each of stdout and stderr
+const MAX_BASH_OUTPUT = 30000;
+
+// Tools this executor runs; the rest of Kode's tools need the Kode subprocess
+export const BUILTIN_TOOLS = [
+  'FileRead', 'FileWrite', 'FileEdit', 'MultiEdit', 'Bash', 'BashOutput', 'KillShell', 'Glob', 'Grep',
+  'LS', 'TodoWrite', 'NotebookRead', 'NotebookEdit', 'MemoryRead', 'MemoryWrite', 'ThinkTool',
+];
+
+// Tools that read and write through the client's fs methods when it offers them
+export const CLIENT_FILE_SYSTEM_TOOLS = ['FileRead', 'FileWrite', 'FileEdit', 'MultiEdit'];
+
+export class BuiltinToolExecutor {
+  private config: KodeACPConfig;
+  // TodoWrite lists by session id
+  private todos: Map<string, TodoItem[]> = new Map();
+
+  constructor(config: KodeACPConfig) {
+    this.config = config;
+  }
+
+  async execute(toolCall: KodeToolCall, context: ToolExecutionContext = {}): Promise<KodeToolResult> {
+    try {
+      return await this.dispatch(toolCall, context);
+    } catch (error) {
+      if (error instanceof PathSandboxError) {
+        return failure(toolCall, error.message);
+      }
+      throw error;
+    }
+  }
+
+  private async dispatch(toolCall: KodeToolCall, context: ToolExecutionContext): Promise<KodeToolResult> {
+    const { name, input = {} } = toolCall;
+
+    switch (name) {
+      case 'FileRead':
+        return this.fileRead(toolCall, input, context);
+      case 'FileWrite':
+        return this.fileWrite(toolCall, input, context);
+      case 'FileEdit':
+        return this.fileEdit(toolCall, input, context);
+      case 'MultiEdit':
+        return this.multiEdit(toolCall, input, context);
+      case 'Bash':
+        return this.bash(toolCall, input, context);
+      case 'BashOutput':
+        return this.bashOutput(toolCall, input, context);
+      case 'KillShell':
+        return this.killShell(toolCall, input, context);
+      case 'Glob':
+        return this.globFiles(toolCall, input, context);
+      case 'Grep':
+        return this.grep(toolCall, input, context);
+      case 'LS':
+        return this.ls(toolCall, input, context);
+      case 'TodoWrite':
+        return this.todoWrite(toolCall, input, context);
+      case 'NotebookRead':
+        return this.notebookRead(toolCall, input, context);
+      case 'NotebookEdit':
+        return this.notebookEdit(toolCall, input, context);
+      case 'MemoryRead':
+        return this.memoryRead(toolCall, input);
+      case 'MemoryWrite':
+        return this.memoryWrite(toolCall, input);
+      case 'ThinkTool':
+        return this.think(toolCall, input);
+      default:
+        return failure(toolCall, `Tool ${name} is not available with the built-in tools; it needs the Kode subprocess`);
+    }
+  }
+
+  getTodos(sessionId: string = ''): TodoItem[] {
+    return (this.todos.get(sessionId) || []).map(todo => ({ ...todo }));
+  }
+
+  releaseSession(sessionId: string): void {
+    this.todos.delete(sessionId);
+  }
+
+  private sandbox(context: ToolExecutionContext): PathSandbox {
+    return createPathSandbox(this.config, context.workingDirectory);
+  }
+
+  // Throws PathSandboxError for paths outside the working directory and the allowlist
+  private resolvePath(filePath: string, context: ToolExecutionContext): string {
+    return this.sandbox(context).resolve(filePath);
+  }
+
+  // Write through the client when it offers fs/write_text_file so the editor shows the change
+  private async writeTextFile(filePath: string, content: string, context: ToolExecutionContext): Promise<void> {
+    if (context.fileSystem?.writeTextFile) {
+      await context.fileSystem.writeTextFile(filePath, content);
+      return;
+    }
+
+    const fs = await import('fs');
+    const path = await import('path');
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  private async fileRead(toolCall: KodeToolCall, input: any, context: ToolExecutionContext): Promise<KodeToolResult> {
+    const filePath = this.resolvePath(input.file_path, context);
+
+    const content = await readTextFile(filePath, context.fileSystem, { line: input.offset, limit: input.limit });
+    if (content === null) {
+      return failure(toolCall, `File not found: ${filePath}`);
+    }
+
+    return success(toolCall, [{ type: 'text', text: content }]);
+  }
+
+  private async fileWrite(toolCall: KodeToolCall, input: any, context: ToolExecutionContext): Promise<KodeToolResult> {
+    const filePath = this.resolvePath(input.file_path, context);
+    try {
+      await this.writeTextFile(filePath, input.content, context);
+      return success(toolCall, `File written successfully: ${filePath}`);
+    } catch (error) {
+      return failure(toolCall, `Failed to write file: ${errorMessage(error)}`);
+    }
+  }
+
+  private async fileEdit(toolCall: KodeToolCall, input: any, context: ToolExecutionContext): Promise<KodeToolResult> {
+    return this.applyEdits(toolCall, input.file_path, context, [
+      { old_string: input.old_string, new_string: input.new_string },
+    ]);
+  }
+
+  private async multiEdit(toolCall: KodeToolCall, input: any, context: ToolExecutionContext): Promise<KodeToolResult> {
+    if (!Array.isArray(input.edits) || input.edits.length === 0) {
+      return failure(toolCall, 'MultiEdit requires a non-empty edits array');
+    }
+    return this.applyEdits(toolCall, input.file_path, context, input.edits);
+  }
+
+  // Apply find-and-replace edits in memory and write the file only if all of them succeed
+  private async applyEdits(
+    toolCall: KodeToolCall,
+    rawPath: string,
+    context: ToolExecutionContext,
+    edits: TextEdit[]
+  ): Promise<KodeToolResult> {
+    const filePath = this.resolvePath(rawPath, context);
+    const existing = await readTextFile(filePath, context.fileSystem);
+    const exists = existing !== null;
+
+    const edited = applyTextEdits(existing, edits, filePath);
+    if ('error' in edited) {
+      return failure(toolCall, edited.error);
+    }
+    const content = edited.content;
+
+    try {
+      await this.writeTextFile(filePath, content, context);
+    } catch (error) {
+      return failure(toolCall, `Failed to write file: ${errorMessage(error)}`);
+    }
+
+    const summary = edits.length > 1 ? `Applied ${edits.length} edits to ${filePath}` : `File edited successfully: ${filePath}`;
+    return success(toolCall, exists ? summary : `File created successfully: ${filePath}`);
+  }
+
+  private async bash(toolCall: KodeToolCall, input: any, context: ToolExecutionContext): Promise<KodeToolResult> {
+    if (input.run_in_background) {
+      return this.bashInBackground(toolCall, input, context);
+    }
+
+    const timeout = Math.min(input.timeout ?? DEFAULT_BASH_TIMEOUT, MAX_BASH_TIMEOUT);
+
+    const options = {
+      cwd: context.workingDirectory || this.config.workingDirectory,
+      shell: true,
+      timeout,
+      signal: context.signal,
+      onOutput: context.onOutput,
+      maxOutputSize: MAX_BASH_OUTPUT,
+    };
+
+    let result: ProcessResult;
+    try {
+      result = this.config.persistentShell && context.sessionId
+        ? await processManager.runInPersistentShell(context.sessionId, input.command, options)
+        : await executeCommand(input.command, options);
+    } catch (error) {
+      return failure(toolCall, `Command execution failed: ${errorMessage(error)}`);
+    }
+
+    const sections = [result.stdout.trimEnd()];
+    if (result.stderr.trim()) {
+      sections.push(`stderr:\n${result.stderr.trimEnd()}`);
+    }
+    if (result.timedOut) {
+      sections.push(`Command timed out after ${timeout}ms and was killed`);
+      if (this.config.persistentShell) {
+        sections.push('The shell was killed and starts fresh on the next command; only its working directory is kept');
+      }
+    } else if (result.exitCode === null) {
+      sections.push(`Command was killed by ${result.signal}`);
+    }
+    sections.push(`Exit code: ${result.exitCode ?? 'none'}`);
+
+    const text = sections.filter(Boolean).join('\n\n');
+    return result.exitCode === 0 && !result.timedOut ? success(toolCall, text) : failure(toolCall, text);
+  }
+
+  private async bashInBackground(toolCall: KodeToolCall, input: any, context: ToolExecutionContext): Promise<KodeToolResult> {
+    try {
+      const shell = await processManager.startBackground(input.command, {
+        cwd: context.workingDirectory || this.config.workingDirectory,
+        owner: context.sessionId,
+      });
+      return success(
+        toolCall,
+        `Started background shell ${shell.id} (pid ${shell.pid}). Read its output with BashOutput and stop it with KillShell.`
+      );
+    } catch (error) {
+      return failure(toolCall, `Command execution failed: ${errorMessage(error)}`);
+    }
+  }
+
+  private async bashOutput(toolCall: KodeToolCall, input: any, context: ToolExecutionContext): Promise<KodeToolResult> {
+    let filter: RegExp | undefined;
+    try {
+      filter = input.filter ? new RegExp(input.filter) : undefined;
+    } catch (error) {
+      return failure(toolCall, `Invalid filter: ${errorMessage(error)}`);
+    }
+
+    const output = processManager.readBackgroundOutput(input.bash_id, context.sessionId);
+    if (!output) {
+      return failure(toolCall, `No background shell with id ${input.bash_id}`);
+    }
+
+    const keep = (text: string) =>
+      filter ? text.split('\n').filter(line => filter!.test(line)).join('\n') : text;
+    const sections = [`Status: ${describeShell(output.shell)}`];
+    if (output.droppedStdout > 0) {
+      sections.push(`[${output.droppedStdout} characters of stdout were dropped before they were read]`);
+    }
+    const stdout = keep(output.stdout).trimEnd();
+    const stderr = keep(output.stderr).trimEnd();
+    if (stdout) {
+      sections.push(`stdout:\n${stdout}`);
+    }
+    if (output.droppedStderr > 0) {
+      sections.push(`[${output.droppedStderr} characters of stderr were dropped before they were read]`);
+    }
+    if (stderr) {
+      sections.push(`stderr:\n${stderr}`);
+    }
+    if (!stdout && !stderr) {
+      sections.push('(no new output)');
+    }
+    return success(toolCall, sections.join('\n\n'));
+  }
+
+  private async killShell(toolCall: KodeToolCall, input: any, context: ToolExecutionContext): Promise<KodeToolResult> {
+    const shell = await processManager.killBackground(input.shell_id, context.sessionId);
+    if (!shell) {
+      return failure(toolCall, `No background shell with id ${input.shell_id}`);
+    }
+    return success(toolCall, `Shell ${shell.id}: ${describeShell(shell)}`);
+  }
+
+  private async globFiles(toolCall: KodeToolCall, input: any, context: ToolExecutionContext): Promise<KodeToolResult> {
+    const sandbox = this.sandbox(context);
+    const cwd = input.path ? sandbox.resolve(input.path) : sandbox.root;
+    sandbox.checkGlobPattern(input.pattern, cwd);
+
+    try {
+      const path = await import('path');
+      const { glob } = await import('glob');
+      const files = await glob(input.pattern, { cwd });
+      // The pattern check cannot see through every pattern or symlink
+      return success(toolCall, files.filter((file) => sandbox.contains(path.resolve(cwd, file))).join('\n'));
+    } catch (error) {
+      return failure(toolCall, `Glob failed: ${errorMessage(error)}`);
+    }
+  }
+
+  private async grep(toolCall: KodeToolCall, input: any, context: ToolExecutionContext): Promise<KodeToolResult> {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(input.pattern);
+    } catch (error) {
+      return failure(toolCall, `Invalid regular expression: ${errorMessage(error)}`);
+    }
+
+    const sandbox = this.sandbox(context);
+    const cwd = input.path ? sandbox.resolve(input.path) : sandbox.root;
+
+    try {
+      const fs = await import('fs');
+      const { glob } = await import('glob');
+      const include = input.include || '**/*';
+
+      const files = await glob(include.includes('/') ? include : `**/${include}`, {
+        cwd,
+        nodir: true,
+        absolute: true,
+        dot: false,
+        ignore: IGNORED_DIRECTORIES.map(dir => `**/${dir}/**`),
+      });
+
+      const matches: Array<{ file: string; mtime: number }> = [];
+      for (const file of files) {
+        // Symlinks may point outside the sandbox
+        if (!sandbox.contains(file)) continue;
+        let content: string;
+        try {
+          content = fs.readFileSync(file, 'utf8');
+        } catch {
+          continue;
+        }
+        // Skip binary files
+        if (content.includes('\u0000')) continue;
+        if (regex.test(content)) {
+          matches.push({ file, mtime: fs.statSync(file).mtimeMs });
+        }
+      }
+
+      if (matches.length === 0) {
+        return success(toolCall, 'No files found');
+      }
+
+      // Most recently modified first, like Kode
+      matches.sort((a, b) => b.mtime - a.mtime);
+      const shown = matches.slice(0, MAX_GREP_RESULTS).map(match => match.file);
+      const truncated = matches.length > MAX_GREP_RESULTS
+        ? `\n(Results are truncated. Showing ${MAX_GREP_RESULTS} of ${matches.length} files.)`
+        : '';
+      return success(toolCall, `Found ${matches.length} file${matches.length === 1 ? '' : 's'}\n${shown.join('\n')}${truncated}`);
+    } catch (error) {
+      return failure(toolCall, `Grep failed: ${errorMessage(error)}`);
+    }
+  }
+
+  private async ls(toolCall: KodeToolCall, input: any, context: ToolExecutionContext): Promise<KodeToolResult> {
+    const fs = await import('fs');
+    const path = await import('path');
+    const root = this.resolvePath(input.path || '.', context);
+
+    if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+      return failure(toolCall, `Directory not found: ${root}`);
+    }
+
+    const lines: string[] = [`- ${root}${path.sep}`];
+    let count = 0;
+
+    const walk = (dir: string, depth: number) => {
+      let entries: any[];
+      try {
+        entries = fs.readdirSync(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        if (count >= MAX_LS_ENTRIES) return;
+        if (entry.name.startsWith('.') || IGNORED_DIRECTORIES.includes(entry.name)) continue;
+
+        count++;
+        const indent = '  '.repeat(depth);
+        if (entry.isDirectory()) {
+          lines.push(`${indent}- ${entry.name}${path.sep}`);
+          walk(path.join(dir, entry.name), depth + 1);
+        } else {
+          lines.push(`${indent}- ${entry.name}`);
+        }
+      }
+    };
+
+    walk(root, 1);
+
+    if (count >= MAX_LS_ENTRIES) {
+      lines.push(`(Listing truncated at ${MAX_LS_ENTRIES} entries. Use a more specific path.)`);
+    }
+    return success(toolCall, lines.join('\n'));
+  }
+
+  private async todoWrite(toolCall: KodeToolCall, input: any, context: ToolExecutionContext): Promise<KodeToolResult> {
+    if (!Array.isArray(input.todos)) {
+      return failure(toolCall, 'todos must be an array');
+    }
+
+    const statuses = ['pending', 'in_progress', 'completed'];
+    const priorities = ['high', 'medium', 'low'];
+    const todos: TodoItem[] = [];
+
+    for (const [index, todo] of input.todos.entries()) {
+      if (!todo || typeof todo.content !== 'string' || !todo.content.trim()) {
+        return failure(toolCall, `Todo ${index + 1} is missing content`);
+      }
+      if (!statuses.includes(todo.status)) {
+        return failure(toolCall, `Todo ${index + 1} has invalid status: ${todo.status}`);
+      }
+      if (todo.priority !== undefined && !priorities.includes(todo.priority)) {
+        return failure(toolCall, `Todo ${index + 1} has invalid priority: ${todo.priority}`);
+      }
+      todos.push({
+        id: todo.id || String(index + 1),
+        content: todo.content,
+        status: todo.status,
+        priority: todo.priority || 'medium',
+      });
+    }
+
+    if (todos.filter(todo => todo.status === 'in_progress').length > 1) {
+      return failure(toolCall, 'Only one todo can be in_progress at a time');
+    }
+
+    this.todos.set(context.sessionId || '', todos);
+    return success(toolCall, 'Todos have been modified successfully. Continue with the current task.');
+  }
+
+  private async notebookRead(toolCall: KodeToolCall, input: any, context: ToolExecutionContext): Promise<KodeToolResult> {
+    const notebook = await this.loadNotebook(input.notebook_path, context);
+    if ('error' in notebook) {
+      return failure(toolCall, notebook.error);
+    }
+
+    const cells = (notebook.data.cells || []).map((cell: any, index: number) => {
+      const source = joinSource(cell.source);
+      const outputs = (cell.outputs || [])
+        .map((output: any) => {
+          if (output.text) return joinSource(output.text);
+          if (output.data?.['text/plain']) return joinSource(output.data['text/plain']);
+          if (output.ename) return `${output.ename}: ${output.evalue}`;
+          return '';
+        })
+        .filter(Boolean);
+
+      const header = `<cell ${index} type="${cell.cell_type}">`;
+      const body = outputs.length > 0 ? `${source}\n<outputs>\n${outputs.join('\n')}\n</outputs>` : source;
+      return `${header}\n${body}\n</cell ${index}>`;
+    });
+
+    return success(toolCall, cells.join('\n'));
+  }
+
+  private async notebookEdit(toolCall: KodeToolCall, input: any, context: ToolExecutionContext): Promise<KodeToolResult> {
+    const notebook = await this.loadNotebook(input.notebook_path, context);
+    if ('error' in notebook) {
+      return failure(toolCall, notebook.error);
+    }
+
+    const cells: any[] = notebook.data.cells || [];
+    const mode = input.edit_mode || 'replace';
+    const index = Number(input.cell_number);
+
+    if (!Number.isInteger(index) || index < 0 || index > cells.length || (mode !== 'insert' && index === cells.length)) {
+      return failure(toolCall, `Cell number ${input.cell_number} is out of range (notebook has ${cells.length} cells)`);
+    }
+
+    const cellType = input.cell_type || (mode === 'insert' ? 'code' : cells[index]?.cell_type);
+    const toCell = () => ({
+      cell_type: cellType,
+      metadata: {},
+      source: input.new_source ?? '',
+      ...(cellType === 'code' ? { execution_count: null, outputs: [] } : {}),
+    });
+
+    switch (mode) {
+      case 'replace':
+        cells[index] = { ...cells[index], ...toCell() };
+        break;
+      case 'insert':
+        cells.splice(index, 0, toCell());
+        break;
+      case 'delete':
+        cells.splice(index, 1);
+        break;
+      default:
+        return failure(toolCall, `Invalid edit_mode: ${mode}`);
+    }
+
+    try {
+      const fs = await import('fs');
+      notebook.data.cells = cells;
+      fs.writeFileSync(notebook.path, JSON.stringify(notebook.data, null, 1) + '\n');
+    } catch (error) {
+      return failure(toolCall, `Failed to write notebook: ${errorMessage(error)}`);
+    }
+
+    const verb = mode === 'insert' ? 'Inserted' : mode === 'delete' ? 'Deleted' : 'Updated';
+    return success(toolCall, `${verb} cell ${index} in ${notebook.path}`);
+  }
+
+  private async loadNotebook(rawPath: string, context: ToolExecutionContext): Promise<{ path: string; data: any } | { error: string }> {
+    const fs = await import('fs');
+    const notebookPath = this.resolvePath(rawPath, context);
+
+    if (!notebookPath.endsWith('.ipynb')) {
+      return { error: `Not a Jupyter notebook (.ipynb): ${notebookPath}` };
+    }
+
+    try {
+      return { path: notebookPath, data: JSON.parse(fs.readFileSync(notebookPath, 'utf8')) };
+    } catch (error) {
+      return { error: `Failed to read notebook ${notebookPath}: ${errorMessage(error)}` };
+    }
+  }
+
+  private async memoryRead(toolCall: KodeToolCall, input: any): Promise<KodeToolResult> {
+    const fs = await import('fs');
+    const memoryDir = await getMemoryDirectory();
+
+    if (!input.file_path) {
+      if (!fs.existsSync(memoryDir)) {
+        return success(toolCall, 'No memories stored');
+      }
+      const { glob } = await import('glob');
+      const files = await glob('**/*', { cwd: memoryDir, nodir: true });
+      return success(toolCall, files.length > 0 ? files.sort().join('\n') : 'No memories stored');
+    }
+
+    const memoryPath = await resolveMemoryPath(memoryDir, input.file_path);
+    if (!memoryPath) {
+      return failure(toolCall, `Invalid memory file path: ${input.file_path}`);
+    }
+
+    try {
+      return success(toolCall, fs.readFileSync(memoryPath, 'utf8'));
+    } catch {
+      return failure(toolCall, `Memory file not found: ${input.file_path}`);
+    }
+  }
+
+  private async memoryWrite(toolCall: KodeToolCall, input: any): Promise<KodeToolResult> {
+    const fs = await import('fs');
+    const path = await import('path');
+    const memoryPath = await resolveMemoryPath(await getMemoryDirectory(), input.file_path || '');
+    if (!memoryPath) {
+      return failure(toolCall, `Invalid memory file path: ${input.file_path}`);
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(memoryPath), { recursive: true });
+      fs.writeFileSync(memoryPath, input.content ?? '');
+      return success(toolCall, `Saved memory: ${input.file_path}`);
+    } catch (error) {
+      return failure(toolCall, `Failed to write memory: ${errorMessage(error)}`);
+    }
+  }
+
+  private async think(toolCall: KodeToolCall, input: any): Promise<KodeToolResult> {
+    log('debug', 'Model thought:', input.thought);
+    return success(toolCall, 'Your thought has been logged.');
+  }
+}
+
+// Read through the client when it offers fs/read_text_file (seeing unsaved buffers), otherwise
+// from disk; null when the file does not exist
+export async function readTextFile(
+  filePath: string,
+  fileSystem?: ToolFileSystem,
+  range: { line?: number; limit?: number } = {}
+): Promise<string | null> {
+  if (fileSystem?.readTextFile) {
+    try {
+      return await fileSystem.readTextFile(filePath, range);
+    } catch (error) {
+      log('debug', `Client could not read ${filePath}, reading from disk:`, error);
+    }
+  }
+
+  const fs = await import('fs');
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch {
+    return null;
+  }
+
+  if (range.line !== undefined || range.limit !== undefined) {
+    const lines = content.split('\n');
+    const start = Math.max((range.line ?? 1) - 1, 0);
+    const end = range.limit !== undefined ? start + range.limit : lines.length;
+    content = lines.slice(start, end).join('\n');
+  }
+  return content;
+}
+
+// Apply find-and-replace edits to a file's text (null for a missing file); all of them must apply
+export function applyTextEdits(
+  existing: string | null,
+  edits: TextEdit[],
+  filePath: string
+): { content: string } | { error: string } {
+  let content: string;
+  if (existing !== null) {
+    content = existing;
+  } else if (edits[0]?.old_string === '') {
+    // An empty old_string on a missing file creates it
+    content = '';
+  } else {
+    return { error: `File not found: ${filePath}` };
+  }
+
+  for (const [index, edit] of edits.entries()) {
+    const label = edits.length > 1 ? `Edit ${index + 1}: ` : '';
+
+    if (edit.old_string === edit.new_string) {
+      return { error: `${label}old_string and new_string are identical; no changes to make` };
+    }
+
+    if (edit.old_string === '') {
+      if (content !== '') {
+        return { error: `${label}old_string is empty but the file already has content` };
+      }
+      content = edit.new_string;
+      continue;
+    }
+
+    const occurrences = content.split(edit.old_string).length - 1;
+    if (occurrences === 0) {
+      return { error: `${label}String to replace not found in file: ${filePath}` };
+    }
+    if (occurrences > 1 && !edit.replace_all) {
+      return {
+        error: `${label}Found ${occurrences} matches of the string to replace. Provide more surrounding context to uniquely identify the instance, or set replace_all.`,
+      };
+    }
+
+    content = edit.replace_all
+      ? content.split(edit.old_string).join(edit.new_string)
+      : content.replace(edit.old_string, () => edit.new_string);
+  }
+
+  return { content };
+}
+
+async function getMemoryDirectory(): Promise<string> {
+  const path = await import('path');
+  const os = await import('os');
+  return getEnv('KODE_MEMORY_DIR') || path.join(os.homedir(), '.kode', 'memory');
+}
+
+// Memory paths are relative to the memory directory and may not escape it
+async function resolveMemoryPath(memoryDir: string, filePath: string): Promise<string | null> {
+  const path = await import('path');
+  if (!filePath) {
+    return null;
+  }
+
+  const resolved = path.resolve(memoryDir, filePath);
+  return resolved.startsWith(memoryDir + path.sep) ? resolved : null;
+}
+
+function describeShell(shell: BackgroundShellInfo): string {
+  const runtime = `${Math.round((Date.now() - shell.startedAt) / 1000)}s since start`;
+  if (shell.running) {
+    return `running (${runtime}) - ${shell.command}`;
+  }
+  const ending = shell.killed
+    ? 'killed'
+    : shell.exitCode !== null ? `exited with code ${shell.exitCode}` : `terminated by ${shell.signal}`;
+  return `${ending} - ${shell.command}`;
+}
+
+function joinSource(source: string | string[]): string {
+  return Array.isArray(source) ? source.join('') : source || '';
+}
+
+function success(toolCall: KodeToolCall, content: any): KodeToolResult {
+  return {
+    type: 'tool_result',
+    content,
+    tool_use_id: toolCall.id || '',
+    is_error: false,
+  };
+}
+
+function failure(toolCall: KodeToolCall, message: string): KodeToolResult {
+  return {
+    type: 'tool_result',
+    content: message,
+    tool_use_id: toolCall.id || '',
+    is_error: true,
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
\ No newline at end of file
@@ -0,0 +1,525 @@
+// Bash command policy for the `safe` permission mode
+// Command lines are parsed into simple commands (through pipes, &&/||/;, subshells, command
+// substitutions and `sh -c` strings) and matched against allow and deny prefix rules
+
+import { CommandPolicyConfig } from './types.ts';
+
+export interface Redirection {
+  operator: string;
+  target: string;
+}
+
+export interface SimpleCommand {
+  // Words after quote removal; leading assignments and wrappers such as `env` are dropped
+  words: string[];
+  // The dropped `VAR=value` assignments, which can change what the command runs (LD_PRELOAD)
+  assignments: string[];
+  redirections: Redirection[];
+  // The command name comes from an expansion ($VAR, $(...)) and cannot be known in advance
+  dynamic: boolean;
+}
+
+export interface ParsedCommandLine {
+  // Each pipeline lists its commands in order; `a && b | c` gives [[a], [b, c]]
+  pipelines: SimpleCommand[][];
+}
+
+export type CommandPolicyAction = 'allow' | 'deny' | 'ask';
+
+export interface CommandPolicyDecision {
+  action: CommandPolicyAction;
+  reason: string;
+}
+
+export class CommandParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandParseError';
+  }
+}
+
+// Read-only commands that run without asking
+export const DEFAULT_ALLOWED_COMMANDS = [
+  'ls', 'pwd', 'echo', 'cat', 'head', 'tail', 'wc', 'grep', 'rg', 'which', 'date', 'whoami',
+  'git status', 'git diff', 'git log', 'git show', 'git branch', 'git rev-parse',
+];
+
+// Commands that are refused outright; `a | b` matches a pipeline where a feeds into b
+export const DEFAULT_DENIED_COMMANDS = [
+  'rm -rf', 'sudo', 'su', 'mkfs', 'dd', 'shutdown', 'reboot',
+  'git push --force', 'git reset --hard',
+  'curl | sh', 'curl | bash', 'wget | sh', 'wget | bash',
+];
+
+// Options that make an otherwise read-only command run programs or write files. A command using
+// one is never allowed without asking; long options also match by unambiguous prefix (`--out`).
+const UNSAFE_OPTIONS: Array<[string[], string[]]> = [
+  [['rg'], ['--pre', '--hostname-bin']],
+  [['git'], ['-c', '--config-env', '--exec-path', '--output', '--ext-diff', '--textconv']],
+  [['git', 'branch'], [
+    '-d', '-D', '-m', '-M', '-c', '-C', '-f', '-u', '--delete', '--move', '--copy', '--force',
+    '--set-upstream-to', '--unset-upstream', '--edit-description',
+  ]],
+  [['date'], ['-s', '--set']],
+];
+
+// Other spellings of flags, rewritten in commands and rules before matching so that
+// `rm --recursive --force` and `rm -R -f` match `rm -rf`
+const FLAG_ALIASES: Array<[string[], Record<string, string>]> = [
+  [['rm'], { '--recursive': '-r', '-R': '-r', '--force': '-f' }],
+  [['git', 'push'], { '--force': '-f' }],
+];
+
+// Prefixes that run the command named after them
+const COMMAND_WRAPPERS = ['env', 'command', 'exec', 'nohup', 'time', 'xargs'];
+const SHELLS = ['sh', 'bash', 'zsh', 'dash'];
+const OUTPUT_REDIRECTIONS = ['>', '>>', '>|', '&>', '&>>', '<>'];
+// Duplicate a descriptor, or open a file for output when the target is not a descriptor
+const DUPLICATIONS = ['>&', '<&'];
+
+export class CommandPolicy {
+  private allow: string[][];
+  private deny: string[][][];
+
+  constructor(config: CommandPolicyConfig = {}) {
+    const defaults = config.defaults !== false;
+    this.allow = [...(defaults ? DEFAULT_ALLOWED_COMMANDS : []), ...(config.allow || [])].map(ruleWords);
+    this.deny = [...(defaults ? DEFAULT_DENIED_COMMANDS : []), ...(config.deny || [])].map(parseRule);
+  }
+
+  evaluate(command: string): CommandPolicyDecision {
+    let parsed: ParsedCommandLine;
+    try {
+      parsed = parseCommandLine(command);
+    } catch (error) {
+      return { action: 'ask', reason: `The command could not be checked: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    const commands = parsed.pipelines.flat();
+    if (commands.length === 0) {
+      return { action: 'ask', reason: 'The command is empty' };
+    }
+
+    for (const pipeline of parsed.pipelines) {
+      for (const rule of this.deny) {
+        const matched = matchPipelineRule(pipeline, rule);
+        if (matched) {
+          return {
+            action: 'deny',
+            reason: `\`${matched.map(commandText).join(' | ')}\` is denied by the command policy rule "${ruleText(rule)}"`,
+          };
+        }
+      }
+    }
+
+    const unknown = commands.filter((cmd) => cmd.dynamic || !this.allow.some((rule) => matchesRule(cmd, rule)));
+    const writes = commands.flatMap((cmd) => cmd.redirections).filter(isFileWrite);
+    const assignments = commands.flatMap((cmd) => cmd.assignments);
+    const unsafe = commands.flatMap((cmd) => unsafeOptions(cmd));
+
+    if (unknown.length === 0 && writes.length === 0 && assignments.length === 0 && unsafe.length === 0) {
+      return { action: 'allow', reason: 'Every command is allowed by the command policy' };
+    }
+
+    const reasons: string[] = [];
+    if (unknown.length > 0) {
+      reasons.push(`not covered by an allow rule: ${unknown.map((cmd) => `\`${commandText(cmd)}\``).join(', ')}`);
+    }
+    if (writes.length > 0) {
+      reasons.push(`writes to ${writes.map((write) => write.target).join(', ')}`);
+    }
+    if (assignments.length > 0) {
+      reasons.push(`sets ${assignments.map((assignment) => assignment.slice(0, assignment.indexOf('='))).join(', ')} for the command`);
+    }
+    if (unsafe.length > 0) {
+      reasons.push(`uses ${unsafe.join(', ')}, which can run programs or write files`);
+    }
+    return { action: 'ask', reason: `Needs approval; ${reasons.join('; ')}` };
+  }
+}
+
+export function parseCommandLine(command: string): ParsedCommandLine {
+  const pipelines: SimpleCommand[][] = [];
+  new CommandLineParser(command, pipelines).parse();
+  return { pipelines };
+}
+
+type Token =
+  | { type: 'word'; value: string; dynamic: boolean }
+  | { type: 'operator'; value: string }
+  | { type: 'redirect'; value: string };
+
+class CommandLineParser {
+  private pos = 0;
+
+  constructor(private text: string, private pipelines: SimpleCommand[][], private depth = 0) {
+    if (depth > 10) {
+      throw new CommandParseError('Commands are nested too deeply');
+    }
+  }
+
+  parse(): void {
+    let pipeline: SimpleCommand[] = [];
+    let current = emptyCommand();
+    let dynamicName = false;
+
+    const endCommand = () => {
+      const command = normalizeCommand(current, dynamicName);
+      if (command) {
+        pipeline.push(command);
+        this.expandShellCode(command);
+      }
+      current = emptyCommand();
+      dynamicName = false;
+    };
+    const endPipeline = () => {
+      endCommand();
+      if (pipeline.length > 0) {
+        this.pipelines.push(pipeline);
+      }
+      pipeline = [];
+    };
+
+    while (true) {
+      const token = this.nextToken();
+      if (!token) {
+        endPipeline();
+        return;
+      }
+
+      if (token.type === 'word') {
+        if (current.words.length === 0 || isAssignment(current.words)) {
+          dynamicName = token.dynamic;
+        }
+        current.words.push(token.value);
+      } else if (token.type === 'redirect') {
+        const target = this.nextToken();
+        if (!target || target.type !== 'word') {
+          throw new CommandParseError(`Missing target for redirection ${token.value}`);
+        }
+        current.redirections.push({ operator: token.value, target: target.value });
+      } else if (token.value === '|' || token.value === '|&') {
+        endCommand();
+      } else if (token.value === '(') {
+        // A subshell is checked as its own command line
+        endPipeline();
+        new CommandLineParser(this.readUntilClosing('(', ')'), this.pipelines, this.depth + 1).parse();
+      } else {
+        // && || ; & and newlines separate pipelines
+        endPipeline();
+      }
+    }
+  }
+
+  // `sh -c '...'` and `eval ...` run their argument as code, which is checked too
+  private expandShellCode(command: SimpleCommand): void {
+    const [name, ...args] = command.words;
+    let code: string | undefined;
+    if (SHELLS.includes(name)) {
+      const flag = args.findIndex((arg) => /^-[A-Za-z]*c[A-Za-z]*$/.test(arg));
+      code = flag === -1 ? undefined : args[flag + 1];
+    } else if (name === 'eval') {
+      code = args.join(' ');
+    }
+    if (code) {
+      new CommandLineParser(code, this.pipelines, this.depth + 1).parse();
+    }
+  }
+
+  private nextToken(): Token | null {
+    // Blanks and comments
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos];
+      if (ch === ' ' || ch === '\t') {
+        this.pos++;
+      } else if (ch === '\\' && this.text[this.pos + 1] === '\n') {
+        this.pos += 2;
+      } else if (ch === '#') {
+        while (this.pos < this.text.length && this.text[this.pos] !== '\n') this.pos++;
+      } else {
+        break;
+      }
+    }
+    if (this.pos >= this.text.length) {
+      return null;
+    }
+
+    const rest = this.text.slice(this.pos);
+    const redirect = /^(\d*(>>|>&|>\||<<<|<<-?|<&|<>|>|<)|&>>|&>)/.exec(rest);
+    if (redirect) {
+      this.pos += redirect[0].length;
+      return { type: 'redirect', value: redirect[0].replace(/^\d+/, '') };
+    }
+    const operator = /^(&&|\|\||\|&|;;|[|;&()\n])/.exec(rest);
+    if (operator) {
+      this.pos += operator[0].length;
+      return { type: 'operator', value: operator[0] };
+    }
+    return this.readWord();
+  }
+
+  private readWord(): Token {
+    let value = '';
+    let dynamic = false;
+
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos];
+      if (/[\s|;&()<>]/.test(ch)) {
+        break;
+      }
+
+      if (ch === "'") {
+        const end = this.text.indexOf("'", this.pos + 1);
+        if (end === -1) {
+          throw new CommandParseError('Unterminated single quote');
+        }
+        value += this.text.slice(this.pos + 1, end);
+        this.pos = end + 1;
+      } else if (ch === '"') {
+        this.pos++;
+        while (true) {
+          if (this.pos >= this.text.length) {
+            throw new CommandParseError('Unterminated double quote');
+          }
+          const inner = this.text[this.pos];
+          if (inner === '"') {
+            this.pos++;
+            break;
+          }
+          if (inner === '\\' && this.pos + 1 < this.text.length) {
+            value += this.text[this.pos + 1];
+            this.pos += 2;
+          } else if (inner === '$' || inner === '`') {
+            const expansion = this.readExpansion();
+            value += expansion;
+            dynamic = dynamic || expansion !== '$';
+          } else {
+            value += inner;
+            this.pos++;
+          }
+        }
+      } else if (ch === '\\') {
+        value += this.text[this.pos + 1] ?? '';
+        this.pos += 2;
+      } else if (ch === '$' || ch === '`') {
+        const expansion = this.readExpansion();
+        value += expansion;
+        dynamic = dynamic || expansion !== '$';
+      } else {
+        value += ch;
+        this.pos++;
+      }
+    }
+
+    return { type: 'word', value, dynamic };
+  }
+
+  // Read $VAR, ${...}, $(...), $((...)) or `...` and return its source text; command
+  // substitutions are parsed as commands of their own
+  private readExpansion(): string {
+    const start = this.pos;
+    if (this.text[this.pos] === '`') {
+      const end = this.text.indexOf('`', this.pos + 1);
+      if (end === -1) {
+        throw new CommandParseError('Unterminated backquote');
+      }
+      this.pos = end + 1;
+      new CommandLineParser(this.text.slice(start + 1, end), this.pipelines, this.depth + 1).parse();
+      return this.text.slice(start, this.pos);
+    }
+
+    const next = this.text[this.pos + 1];
+    if (next === '(' && this.text[this.pos + 2] === '(') {
+      this.pos += 2;
+      this.readUntilClosing('(', ')');
+    } else if (next === '(') {
+      this.pos += 2;
+      new CommandLineParser(this.readUntilClosing('(', ')'), this.pipelines, this.depth + 1).parse();
+    } else if (next === '{') {
+      this.pos += 2;
+      this.readUntilClosing('{', '}');
+    } else {
+      // A $ not followed by a name is literal
+      const name = /^\$([A-Za-z_][A-Za-z0-9_]*|[0-9@*#?$!-])?/.exec(this.text.slice(this.pos))!;
+      this.pos += name[0].length;
+    }
+    return this.text.slice(start, this.pos);
+  }
+
+  // Text from pos, just past an opening bracket, up to its matching closing bracket, which is
+  // consumed as well
+  private readUntilClosing(open: string, close: string): string {
+    const start = this.pos;
+    let depth = 1;
+    let quote: string | null = null;
+
+    for (let index = this.pos; index < this.text.length; index++) {
+      const ch = this.text[index];
+      if (quote) {
+        if (ch === '\\' && quote === '"') {
+          index++;
+        } else if (ch === quote) {
+          quote = null;
+        }
+      } else if (ch === "'" || ch === '"') {
+        quote = ch;
+      } else if (ch === '\\') {
+        index++;
+      } else if (ch === open) {
+        depth++;
+      } else if (ch === close && --depth === 0) {
+        this.pos = index + 1;
+        return this.text.slice(start, index);
+      }
+    }
+    throw new CommandParseError(`Unterminated ${open}`);
+  }
+}
+
+function emptyCommand(): SimpleCommand {
+  return { words: [], assignments: [], redirections: [], dynamic: false };
+}
+
+function isAssignment(words: string[]): boolean {
+  return words.every((word) => /^[A-Za-z_][A-Za-z0-9_]*=/.test(word));
+}
+
+// Drop leading assignments and wrappers, and reduce `/bin/rm` to `rm`
+function normalizeCommand(command: SimpleCommand, dynamicName: boolean): SimpleCommand | null {
+  let words = command.words;
+  const assignments: string[] = [];
+  while (words.length > 0) {
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0])) {
+      assignments.push(words[0]);
+      words = words.slice(1);
+    } else if (COMMAND_WRAPPERS.includes(basename(words[0]))) {
+      words = words.slice(1);
+      while (words.length > 0 && words[0].startsWith('-')) {
+        words = words.slice(1);
+      }
+    } else {
+      break;
+    }
+  }
+
+  // A bare assignment only sets a shell variable
+  if (words.length === 0) {
+    return command.redirections.length > 0 ? { ...command, words: [], assignments: [], dynamic: false } : null;
+  }
+  return {
+    words: [basename(words[0]), ...words.slice(1)],
+    assignments,
+    redirections: command.redirections,
+    dynamic: dynamicName,
+  };
+}
+
+function basename(word: string): string {
+  return word.includes('/') ? word.slice(word.lastIndexOf('/') + 1) : word;
+}
+
+// The command's names start with all of the prefix's
+function hasNamePrefix(words: string[], prefix: string[]): boolean {
+  const names = words.filter((word) => !word.startsWith('-'));
+  return prefix.every((name, index) => names[index] === name);
+}
+
+// Rewrite flags to the spelling in FLAG_ALIASES, letter by letter in groups (`-Rf` -> `-rf`)
+function canonicalFlags(words: string[]): string[] {
+  const aliases: Record<string, string> = Object.assign(
+    {},
+    ...FLAG_ALIASES.filter(([prefix]) => hasNamePrefix(words, prefix)).map(([, table]) => table)
+  );
+  return words.map((word) => {
+    if (word.startsWith('--')) {
+      const [name, ...value] = word.split('=');
+      return aliases[name] ? [aliases[name], ...value].join('=') : word;
+    }
+    if (/^-[A-Za-z0-9]+$/.test(word)) {
+      return `-${word.slice(1).split('').map((letter) => (aliases[`-${letter}`] ?? `-${letter}`).slice(1)).join('')}`;
+    }
+    return word;
+  });
+}
+
+// The UNSAFE_OPTIONS entries a command uses
+function unsafeOptions(command: SimpleCommand): string[] {
+  const flags = command.words.filter((word) => word.startsWith('-') && word !== '--');
+  const shortFlags = new Set(flags.filter((flag) => /^-[A-Za-z0-9]+$/.test(flag)).flatMap((flag) => flag.slice(1).split('')));
+
+  return UNSAFE_OPTIONS
+    .filter(([prefix]) => hasNamePrefix(command.words, prefix))
+    .flatMap(([, options]) => options)
+    .filter((option) =>
+      option.startsWith('--')
+        ? flags.some((flag) => {
+          const name = flag.split('=')[0];
+          return name.startsWith('--') && name.length > 3 && option.startsWith(name);
+        })
+        : shortFlags.has(option.slice(1))
+    );
+}
+
+function ruleWords(rule: string): string[] {
+  return rule.trim().split(/\s+/).filter(Boolean);
+}
+
+// Deny rules may name a pipe, `curl | sh`
+function parseRule(rule: string): string[][] {
+  return rule.split('|').map(ruleWords);
+}
+
+function ruleText(rule: string[][]): string {
+  return rule.map((segment) => segment.join(' ')).join(' | ');
+}
+
+function commandText(command: SimpleCommand): string {
+  const redirections = command.redirections.map((redirect) => `${redirect.operator} ${redirect.target}`);
+  return [...command.words, ...redirections].join(' ');
+}
+
+// A rule matches when its names are a prefix of the command's names and every flag it lists is
+// present: long flags by name, short flags letter by letter (`-rf` matches `rm -f -r x`), both
+// after FLAG_ALIASES are applied
+function matchesRule(command: SimpleCommand, rule: string[]): boolean {
+  const words = canonicalFlags(command.words);
+  rule = canonicalFlags(rule);
+  const ruleNames = rule.filter((word) => !word.startsWith('-'));
+  const ruleFlags = rule.filter((word) => word.startsWith('-'));
+  const names = words.filter((word) => !word.startsWith('-'));
+  const flags = words.filter((word) => word.startsWith('-'));
+
+  if (ruleNames.length === 0 || ruleNames.some((name, index) => names[index] !== name)) {
+    return false;
+  }
+
+  const shortFlags = new Set(flags.filter((flag) => /^-[A-Za-z0-9]+$/.test(flag)).flatMap((flag) => flag.slice(1).split('')));
+  return ruleFlags.every((flag) =>
+    flag.startsWith('--')
+      ? flags.some((word) => word === flag || word.startsWith(`${flag}=`))
+      : flag.slice(1).split('').every((letter) => shortFlags.has(letter))
+  );
+}
+
+// Commands of the pipeline matching the rule's segments in order, or null
+function matchPipelineRule(pipeline: SimpleCommand[], rule: string[][]): SimpleCommand[] | null {
+  const matched: SimpleCommand[] = [];
+  let index = 0;
+  for (const segment of rule) {
+    while (index < pipeline.length && !matchesRule(pipeline[index], segment)) {
+      index++;
+    }
+    if (index >= pipeline.length) {
+      return null;
+    }
+    matched.push(pipeline[index++]);
+  }
+  return matched;
+}
+
+function isFileWrite(redirect: Redirection): boolean {
+  if (DUPLICATIONS.includes(redirect.operator)) {
+    return !/^(\d+-?|-)$/.test(redirect.target) && redirect.target !== '/dev/null';
+  }
+  return OUTPUT_REDIRECTIONS.includes(redirect.operator) && redirect.target !== '/dev/null';
+}
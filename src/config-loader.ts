@@ -0,0 +1,443 @@
+// Configuration loading with layered precedence:
+// built-in defaults < user config file < project config file < KODE_* environment variables < CLI flags
+// Config files are JSON or TOML and share the KodeACPConfig shape.
+
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { KodeACPConfig } from './types.ts';
+import { DEFAULT_MODEL_PROFILES } from './multi-model.ts';
+import { KODE_TOOL_DEFINITIONS } from './tool-definitions.ts';
+import { parseToml } from './toml.ts';
+
+// Looked up in the working directory (project) and in the home directory (user)
+export const CONFIG_FILE_NAMES = ['kode-acp.json', '.kode-acp.json', 'kode-acp.toml', '.kode-acp.toml'];
+
+// Settings that run programs, send credentials elsewhere or widen what tools may do. A project
+// file is part of the repository being worked on, so these come only from the user file, an
+// explicit --config file, the environment or flags.
+const USER_ONLY_KEYS = [
+  'kodeCommand',
+  'kodeArgs',
+  'workingDirectory',
+  'allowedPaths',
+  'permissionMode',
+  'logFile',
+] as const;
+
+export class ConfigError extends Error {
+  constructor(public source: string, public problems: string[]) {
+    super(`Invalid configuration in ${source}:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+export interface LoadConfigOptions {
+  // Values from command-line flags; highest precedence
+  overrides?: KodeACPConfig;
+  env?: Record<string, string | undefined>;
+  // Explicit config file, used instead of the project config file
+  configFile?: string;
+  // Directory for relative CLI/env paths and the fallback project directory
+  cwd?: string;
+  homeDir?: string;
+}
+
+export interface LoadedConfig {
+  config: KodeACPConfig;
+  // Config files that were read, lowest precedence first
+  files: string[];
+}
+
+export function loadConfig(options: LoadConfigOptions = {}): LoadedConfig {
+  const cwd = options.cwd || process.cwd();
+  const env = options.env || {};
+  const files: string[] = [];
+
+  const overrides = resolvePaths(validateConfig(options.overrides || {}, 'command-line flags'), cwd);
+  const envConfig = resolvePaths(configFromEnv(env), cwd);
+
+  const userFile = findUserConfigFile(options.homeDir || homedir(), env);
+  const userConfig = userFile ? readConfigFile(userFile) : {};
+  if (userFile) {
+    files.push(userFile);
+  }
+
+  // The project file lives in the working directory chosen by the higher layers
+  const projectDir = overrides.workingDirectory || envConfig.workingDirectory || userConfig.workingDirectory || cwd;
+  const explicitFile = options.configFile || env.KODE_CONFIG;
+  const projectFile = explicitFile ? resolve(cwd, explicitFile) : findConfigFile(projectDir);
+  if (explicitFile && !existsSync(projectFile!)) {
+    throw new ConfigError(projectFile!, ['file does not exist']);
+  }
+  const projectConfig = projectFile ? readConfigFile(projectFile) : {};
+  if (projectFile) {
+    if (!explicitFile) {
+      checkProjectConfig(projectConfig, projectFile);
+    }
+    files.push(projectFile);
+  }
+
+  const config = mergeConfigs(userConfig, projectConfig, envConfig, overrides);
+  checkReferences(config, files.length > 0 ? files.join(', ') : 'merged configuration');
+  readAuthTokenFile(config);
+
+  return { config, files };
+}
+
+// Parse and validate one config file; relative paths are resolved against its directory
+export function readConfigFile(path: string): KodeACPConfig {
+  let raw: unknown;
+  try {
+    const text = readFileSync(path, 'utf-8');
+    raw = path.endsWith('.toml') ? parseToml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(path, [error instanceof Error ? error.message : String(error)]);
+  }
+  const config = resolvePaths(validateConfig(raw, path), dirname(path));
+  if (config.http?.port !== undefined) {
+    // A project file must not turn a stdio agent launched by an editor into a server
+    throw new ConfigError(path, ['http.port: set the port with --port or KODE_PORT, not in a config file']);
+  }
+  return config;
+}
+
+function checkProjectConfig(config: KodeACPConfig, path: string): void {
+  const problems: string[] = USER_ONLY_KEYS.filter((key) => config[key] !== undefined);
+  for (const [name, profile] of Object.entries(config.models || {})) {
+    if (profile.baseUrl !== undefined) {
+      problems.push(`models.${name}.baseUrl`);
+    }
+  }
+  // Deny rules only tighten the safe mode and stay allowed
+  if (config.commandPolicy?.allow !== undefined) {
+    problems.push('commandPolicy.allow');
+  }
+  if (config.commandPolicy?.defaults !== undefined) {
+    problems.push('commandPolicy.defaults');
+  }
+  if (config.http?.noAuth !== undefined) {
+    problems.push('http.noAuth');
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(
+      path,
+      problems.map((key) => `${key}: not allowed in a project config file; set it in the user config file, with --config, KODE_* variables or flags`)
+    );
+  }
+}
+
+export function configFromEnv(env: Record<string, string | undefined>): KodeACPConfig {
+  const raw: Record<string, any> = {
+    workingDirectory: env.KODE_WORKING_DIRECTORY,
+    allowedPaths: env.KODE_ALLOWED_PATHS?.split(',').map((path) => path.trim()).filter(Boolean),
+    permissionMode: env.KODE_PERMISSION_MODE,
+    logLevel: env.KODE_LOG_LEVEL,
+    logFormat: env.KODE_LOG_FORMAT,
+    logFile: env.KODE_LOG_FILE,
+    defaultModel: env.KODE_DEFAULT_MODEL,
+    toolBackend: env.KODE_TOOL_BACKEND,
+    persistentShell: env.KODE_PERSISTENT_SHELL === undefined ? undefined : booleanOrString(env.KODE_PERSISTENT_SHELL),
+    http: {
+      port: env.KODE_PORT === undefined ? undefined : numberOrString(env.KODE_PORT),
+      host: env.KODE_HOST,
+      authToken: env.KODE_AUTH_TOKEN,
+      authTokenFile: env.KODE_AUTH_TOKEN_FILE,
+      corsOrigins: env.KODE_CORS_ORIGINS?.split(',').map((origin) => origin.trim()).filter(Boolean),
+    },
+  };
+  return validateConfig(raw, 'KODE_* environment variables');
+}
+
+// Later layers win; nested objects are merged key by key, arrays and tool mappings are replaced
+export function mergeConfigs(...layers: KodeACPConfig[]): KodeACPConfig {
+  return layers.reduce<KodeACPConfig>((merged, layer) => {
+    const result = deepMerge(merged, layer);
+    // A token file from a higher layer replaces a token from a lower one
+    if (layer.http?.authTokenFile && !layer.http.authToken && result.http) {
+      delete result.http.authToken;
+    }
+    if (merged.toolMappings || layer.toolMappings) {
+      result.toolMappings = { ...merged.toolMappings, ...layer.toolMappings };
+    }
+    return result;
+  }, {});
+}
+
+// Check the shape of a config object, collecting every problem before failing
+export function validateConfig(raw: unknown, source: string): KodeACPConfig {
+  const problems: string[] = [];
+  CONFIG_SCHEMA(raw, '', problems);
+  if (problems.length > 0) {
+    throw new ConfigError(source, problems);
+  }
+  return stripUndefined(raw) as KodeACPConfig;
+}
+
+function findUserConfigFile(home: string, env: Record<string, string | undefined>): string | undefined {
+  const configHome = env.XDG_CONFIG_HOME || join(home, '.config');
+  const candidates = [
+    join(configHome, 'kode-acp', 'config.json'),
+    join(configHome, 'kode-acp', 'config.toml'),
+    ...CONFIG_FILE_NAMES.map((name) => join(home, name)),
+  ];
+  return candidates.find((candidate) => existsSync(candidate));
+}
+
+function findConfigFile(dir: string): string | undefined {
+  return CONFIG_FILE_NAMES.map((name) => join(dir, name)).find((candidate) => existsSync(candidate));
+}
+
+function resolvePaths(config: KodeACPConfig, baseDir: string): KodeACPConfig {
+  if (config.workingDirectory) {
+    config.workingDirectory = resolvePath(baseDir, config.workingDirectory);
+  }
+  if (config.allowedPaths) {
+    config.allowedPaths = config.allowedPaths.map((path) => resolvePath(baseDir, path));
+  }
+  if (config.logFile) {
+    config.logFile = resolvePath(baseDir, config.logFile);
+  }
+  if (config.http?.authTokenFile) {
+    config.http.authTokenFile = resolvePath(baseDir, config.http.authTokenFile);
+  }
+  return config;
+}
+
+function resolvePath(baseDir: string, path: string): string {
+  if (path === '~' || path.startsWith('~/')) {
+    return join(homedir(), path.slice(1));
+  }
+  return resolve(baseDir, path);
+}
+
+// Model and tool names can only be checked once every layer is known
+function checkReferences(config: KodeACPConfig, source: string): void {
+  const problems: string[] = [];
+  const builtinModels = new Set(DEFAULT_MODEL_PROFILES.map((profile) => profile.name));
+  const knownModels = new Set([...builtinModels, ...Object.keys(config.models || {})]);
+
+  for (const [name, profile] of Object.entries(config.models || {})) {
+    if (builtinModels.has(name)) {
+      continue;
+    }
+    for (const field of ['provider', 'model'] as const) {
+      if (!profile[field]) {
+        problems.push(`models.${name}.${field}: required for a new model profile`);
+      }
+    }
+  }
+
+  const pointers: Array<[string, string | undefined]> = [
+    ['defaultModel', config.defaultModel],
+    ...Object.entries(config.modelPointers || {}).map(([key, value]): [string, string | undefined] => [`modelPointers.${key}`, value]),
+  ];
+  for (const [path, model] of pointers) {
+    if (model && !knownModels.has(model)) {
+      problems.push(`${path}: unknown model "${model}" (available: ${Array.from(knownModels).join(', ')})`);
+    }
+  }
+
+  for (const [name, mapping] of Object.entries(config.toolMappings || {})) {
+    if (!KODE_TOOL_DEFINITIONS[mapping.tool]) {
+      problems.push(`toolMappings.${name}.tool: unknown Kode tool "${mapping.tool}" (available: ${Object.keys(KODE_TOOL_DEFINITIONS).join(', ')})`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(source, problems);
+  }
+}
+
+function readAuthTokenFile(config: KodeACPConfig): void {
+  const file = config.http?.authTokenFile;
+  if (!file || config.http?.authToken) {
+    return;
+  }
+  let token: string;
+  try {
+    token = readFileSync(file, 'utf-8').trim();
+  } catch (error) {
+    throw new ConfigError(file, [`cannot read auth token file: ${error instanceof Error ? error.message : error}`]);
+  }
+  if (!token) {
+    throw new ConfigError(file, ['auth token file is empty']);
+  }
+  config.http!.authToken = token;
+}
+
+// Schema checks: each appends "path: problem" messages
+
+type Check = (value: any, path: string, problems: string[]) => void;
+
+const describe = (value: any): string =>
+  Array.isArray(value) ? 'an array'
+    : value === null ? 'null'
+    : typeof value === 'string' ? `"${value}"`
+    : typeof value === 'number' || typeof value === 'boolean' ? String(value)
+    : typeof value;
+
+const optional = (check: Check): Check => (value, path, problems) => {
+  if (value !== undefined) {
+    check(value, path, problems);
+  }
+};
+
+const string: Check = (value, path, problems) => {
+  if (typeof value !== 'string' || value === '') {
+    problems.push(`${path}: expected a non-empty string, got ${describe(value)}`);
+  }
+};
+
+const boolean: Check = (value, path, problems) => {
+  if (typeof value !== 'boolean') {
+    problems.push(`${path}: expected true or false, got ${describe(value)}`);
+  }
+};
+
+const number: Check = (value, path, problems) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    problems.push(`${path}: expected a number, got ${describe(value)}`);
+  }
+};
+
+const integer = (min: number, max: number = Number.MAX_SAFE_INTEGER): Check => (value, path, problems) => {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    problems.push(`${path}: expected an integer between ${min} and ${max}, got ${describe(value)}`);
+  }
+};
+
+const oneOf = (...values: string[]): Check => (value, path, problems) => {
+  if (!values.includes(value)) {
+    problems.push(`${path}: expected one of ${values.join(', ')}, got ${describe(value)}`);
+  }
+};
+
+const arrayOf = (check: Check): Check => (value, path, problems) => {
+  if (!Array.isArray(value)) {
+    problems.push(`${path}: expected an array, got ${describe(value)}`);
+    return;
+  }
+  value.forEach((item, index) => check(item, `${path}[${index}]`, problems));
+};
+
+const object = (shape: Record<string, Check>): Check => (value, path, problems) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    problems.push(`${path || 'config'}: expected an object, got ${describe(value)}`);
+    return;
+  }
+  for (const [key, item] of Object.entries(value)) {
+    const itemPath = path ? `${path}.${key}` : key;
+    const check = shape[key];
+    if (check) {
+      optional(check)(item, itemPath, problems);
+    } else if (item !== undefined) {
+      problems.push(`${itemPath}: unknown setting (expected one of ${Object.keys(shape).join(', ')})`);
+    }
+  }
+};
+
+const recordOf = (check: Check): Check => (value, path, problems) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    problems.push(`${path}: expected an object, got ${describe(value)}`);
+    return;
+  }
+  for (const [key, item] of Object.entries(value)) {
+    check(item, `${path}.${key}`, problems);
+  }
+};
+
+const required = (check: Check): Check => (value, path, problems) => {
+  if (value === undefined) {
+    problems.push(`${path}: required`);
+  } else {
+    check(value, path, problems);
+  }
+};
+
+const MODEL_PROFILE_SCHEMA = object({
+  provider: string,
+  model: string,
+  apiKey: string,
+  baseUrl: string,
+  maxTokens: integer(1),
+  temperature: number,
+  contextWindow: integer(1),
+  cost: object({ input: required(number), output: required(number), currency: required(string) }),
+});
+
+const CONFIG_SCHEMA: Check = object({
+  workingDirectory: string,
+  allowedPaths: arrayOf(string),
+  permissionMode: oneOf('safe', 'yolo'),
+  defaultModel: string,
+  logLevel: oneOf('debug', 'info', 'warn', 'error'),
+  logFormat: oneOf('text', 'json'),
+  logFile: string,
+  logMaxSize: integer(1024),
+  logMaxFiles: integer(0, 100),
+  maxToolCalls: integer(1),
+  sessionTimeout: integer(1),
+  toolBackend: oneOf('auto', 'kode', 'builtin'),
+  persistentShell: boolean,
+  commandPolicy: object({ allow: arrayOf(string), deny: arrayOf(string), defaults: boolean }),
+  kodeCommand: string,
+  kodeArgs: arrayOf(string),
+  models: recordOf(MODEL_PROFILE_SCHEMA),
+  modelPointers: object({ main: string, task: string, reasoning: string, quick: string }),
+  toolMappings: recordOf(object({ tool: required(string), input: recordOf(string) })),
+  http: object({
+    host: string,
+    port: integer(1, 65535),
+    authToken: string,
+    authTokenFile: string,
+    corsOrigins: arrayOf(string),
+    noAuth: boolean,
+  }),
+});
+
+function numberOrString(value: string): number | string {
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+function booleanOrString(value: string): boolean | string {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'true' || normalized === '1') return true;
+  if (normalized === 'false' || normalized === '0') return false;
+  return value;
+}
+
+function deepMerge(base: Record<string, any>, override: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) {
+      continue;
+    }
+    result[key] = isPlainObject(value) && isPlainObject(base[key]) ? deepMerge(base[key], value) : value;
+  }
+  return result;
+}
+
+function stripUndefined(value: any): any {
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  const result: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) {
+      continue;
+    }
+    const stripped = stripUndefined(item);
+    // Objects whose fields were all unset (e.g. `http` from the environment) are dropped
+    if (isPlainObject(stripped) && Object.keys(stripped).length === 0 && Object.keys(item).length > 0) {
+      continue;
+    }
+    result[key] = stripped;
+  }
+  return result;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,6 +1,8 @@
 // Cross-platform event emitter for JSR compatibility
 // This module provides a simple event emitter implementation
 
+import { log } from './utils.ts';
+
 export interface EventListener {
   (...args: any[]): void;
 }
@@ -34,7 +36,7 @@ export class EventEmitter {
       try {
         listener(...args);
       } catch (error) {
-        console.error(`Error in event listener for ${event}:`, error);
+        log('error', `Error in event listener for ${event}:`, error);
       }
     }
     return true;
@@ -0,0 +1,157 @@
+// Bearer-token authentication and CORS for the HTTP mode
+// Tokens come from the Authorization header, or the `access_token` query parameter for
+// browser EventSource/WebSocket clients, which cannot set headers
+
+import type { HttpRequest, HttpResponse } from './http-server.ts';
+import { KodeHttpConfig } from './types.ts';
+
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1', '[::1]'];
+const ALLOWED_METHODS = 'GET, POST, OPTIONS';
+const ALLOWED_HEADERS = 'Authorization, Content-Type, X-ACP-Session-Id';
+const EXPOSED_HEADERS = 'X-ACP-Session-Id';
+
+export class HttpAccessControl {
+  private corsOrigins: string[];
+
+  constructor(private config: KodeHttpConfig = {}) {
+    this.corsOrigins = config.corsOrigins || [];
+  }
+
+  get host(): string {
+    return this.config.host || DEFAULT_HTTP_HOST;
+  }
+
+  get requiresToken(): boolean {
+    return Boolean(this.config.authToken);
+  }
+
+  // Refuse to expose the agent beyond this machine without a token
+  assertSafeBinding(host: string = this.host): void {
+    if (!this.requiresToken && !isLoopbackHost(host)) {
+      throw new Error(
+        `Refusing to listen on ${host} without an auth token; drop --no-auth or bind to localhost`
+      );
+    }
+  }
+
+  // A web page can point its own domain at 127.0.0.1 (DNS rebinding); its requests then name that
+  // domain in Host, so a server bound to loopback answers only to loopback names
+  isHostAllowed(hostHeader: string | undefined): boolean {
+    if (!hostHeader || !isLoopbackHost(this.host)) {
+      return true;
+    }
+    let name: string;
+    try {
+      name = new URL(`http://${hostHeader}`).hostname;
+    } catch {
+      return false;
+    }
+    return isLoopbackHost(name);
+  }
+
+  isOriginAllowed(origin: string | undefined): boolean {
+    // Requests without an Origin header come from non-browser clients
+    if (!origin) {
+      return true;
+    }
+    return this.corsOrigins.includes('*') || this.corsOrigins.includes(origin);
+  }
+
+  // Headers added to every response for an allowed cross-origin request
+  corsHeaders(req: HttpRequest): Record<string, string> {
+    const origin = req.headers.origin;
+    if (!origin || !this.isOriginAllowed(origin)) {
+      return {};
+    }
+    return {
+      'Access-Control-Allow-Origin': this.corsOrigins.includes('*') ? '*' : origin,
+      'Access-Control-Expose-Headers': EXPOSED_HEADERS,
+      Vary: 'Origin',
+    };
+  }
+
+  isPreflight(req: HttpRequest): boolean {
+    return req.method === 'OPTIONS' && Boolean(req.headers['access-control-request-method']);
+  }
+
+  preflight(req: HttpRequest): HttpResponse {
+    if (!this.isHostAllowed(req.headers.host)) {
+      return rejection(403, 'Host not allowed');
+    }
+    if (!this.isOriginAllowed(req.headers.origin)) {
+      return rejection(403, 'Origin not allowed');
+    }
+    return {
+      statusCode: 204,
+      headers: {
+        ...this.corsHeaders(req),
+        'Access-Control-Allow-Methods': ALLOWED_METHODS,
+        'Access-Control-Allow-Headers': ALLOWED_HEADERS,
+        'Access-Control-Max-Age': '600',
+      },
+    };
+  }
+
+  // Returns the response to send instead of handling the request, or null when it may proceed
+  check(req: HttpRequest): HttpResponse | null {
+    if (!this.isHostAllowed(req.headers.host)) {
+      return rejection(403, 'Host not allowed');
+    }
+    if (!this.isOriginAllowed(req.headers.origin)) {
+      return rejection(403, 'Origin not allowed');
+    }
+
+    const expected = this.config.authToken;
+    if (!expected) {
+      return null;
+    }
+
+    const token = requestToken(req);
+    if (!token) {
+      return rejection(401, 'Missing bearer token', { 'WWW-Authenticate': 'Bearer' });
+    }
+    if (!constantTimeEqual(token, expected)) {
+      return rejection(401, 'Invalid bearer token', { 'WWW-Authenticate': 'Bearer error="invalid_token"' });
+    }
+    return null;
+  }
+}
+
+// 256 random bits, hex-encoded
+export function generateAuthToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function isLoopbackHost(host: string): boolean {
+  return LOOPBACK_HOSTS.includes(host.toLowerCase()) || /^127(\.\d{1,3}){3}$/.test(host);
+}
+
+function requestToken(req: HttpRequest): string | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (match) {
+    return match[1].trim();
+  }
+  return new URL(req.url || '/', 'http://localhost').searchParams.get('access_token') || undefined;
+}
+
+// Compare without leaking the position of the first mismatch through timing
+function constantTimeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < right.length; i++) {
+    diff |= (left[i % Math.max(left.length, 1)] ?? 0) ^ right[i];
+  }
+  return diff === 0;
+}
+
+function rejection(statusCode: number, error: string, headers: Record<string, string> = {}): HttpResponse {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({ error }),
+  };
+}
@@ -0,0 +1,193 @@
+// HTTP bridge for the ACP agent
+// One long-lived agent serves every HTTP request; agent -> client messages are routed per session
+// to an attached streaming connection (SSE, WebSocket) or queued until fetched
+
+import { KodeAcpAgentSimple, SimpleACPConnection, SimpleACPMessage } from './acp-agent-simple.ts';
+import { KodeACPConfig } from './types.ts';
+import { createLogger } from './logger.ts';
+import {
+  AGENT_METHODS,
+  JsonRpcResponse,
+  isJsonRpcNotification,
+  isJsonRpcRequest,
+  parseJsonRpcMessage,
+  serveJsonRpc,
+} from './jsonrpc.ts';
+
+const logger = createLogger('http');
+
+// Header that routes a request to a session when its params carry no sessionId
+export const SESSION_HEADER = 'x-acp-session-id';
+
+const MAX_QUEUED_MESSAGES = 1000;
+
+// Methods that are not scoped to an existing session
+const SESSIONLESS_METHODS: string[] = [
+  AGENT_METHODS.initialize,
+  AGENT_METHODS.authenticate,
+  AGENT_METHODS.session_new,
+  AGENT_METHODS.kode_list_models,
+  AGENT_METHODS.kode_model_command,
+];
+
+export interface HttpAcpResult {
+  statusCode: number;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export class HttpAcpBridge {
+  private agent: KodeAcpAgentSimple;
+  // Agent -> client messages (updates, permission requests) waiting to be fetched, by session id
+  private queues: Map<string, SimpleACPMessage[]> = new Map();
+  // Streaming connections that receive a session's messages directly
+  private connections: Map<string, SimpleACPConnection> = new Map();
+  private initialization: Promise<void> | null = null;
+
+  constructor(config: KodeACPConfig = {}) {
+    this.agent = new KodeAcpAgentSimple(
+      {
+        send: (message) => this.route(message),
+        async *receive() {
+          // Incoming messages arrive through handlePost
+        },
+      },
+      config
+    );
+  }
+
+  initialize(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = this.agent.initialize();
+    }
+    return this.initialization;
+  }
+
+  // Handle the body of a `POST /acp` request
+  async handlePost(body: string, headers: Record<string, string | string[] | undefined>): Promise<HttpAcpResult> {
+    await this.initialize();
+
+    const parsed = parseJsonRpcMessage(body);
+    if (parsed.error) {
+      return jsonResult(400, parsed.error);
+    }
+    const message = parsed.message;
+
+    const headerSessionId = firstHeader(headers[SESSION_HEADER]);
+    if (headerSessionId && (isJsonRpcRequest(message) || isJsonRpcNotification(message))
+      && !SESSIONLESS_METHODS.includes(message.method)) {
+      const params = message.params && typeof message.params === 'object' ? message.params : {};
+      if (params.sessionId && params.sessionId !== headerSessionId) {
+        logger.warn(`Session header ${headerSessionId} does not match params.sessionId ${params.sessionId}`);
+      }
+      message.params = { sessionId: headerSessionId, ...params };
+    }
+
+    const response = await this.agent.handleMessage(message);
+    if (!response) {
+      return { statusCode: 202, headers: {} };
+    }
+
+    const result = jsonResult(200, response);
+    if (response.result?.sessionId) {
+      result.headers[SESSION_HEADER] = response.result.sessionId;
+    }
+    return result;
+  }
+
+  // Deliver a session's agent -> client messages to a streaming connection, starting with
+  // anything queued so far. A newer connection replaces an older one.
+  async attach(sessionId: string, connection: SimpleACPConnection): Promise<void> {
+    this.connections.set(sessionId, connection);
+    for (const message of this.takeMessages(sessionId)) {
+      await connection.send(message);
+    }
+  }
+
+  detach(connection: SimpleACPConnection): void {
+    for (const [sessionId, attached] of this.connections) {
+      if (attached === connection) {
+        this.connections.delete(sessionId);
+      }
+    }
+  }
+
+  // Serve a full-duplex connection (WebSocket): its messages go to the agent, responses come back
+  // on it, and every session it creates or addresses is attached to it
+  async serve(connection: SimpleACPConnection): Promise<void> {
+    await this.initialize();
+
+    try {
+      await serveJsonRpc(connection, async (message): Promise<JsonRpcResponse | void> => {
+        const sessionId = (message as any).params?.sessionId;
+        if (sessionId && this.connections.get(sessionId) !== connection) {
+          await this.attach(sessionId, connection);
+        }
+
+        const response = await this.agent.handleMessage(message);
+        if (isJsonRpcRequest(message) && message.method === AGENT_METHODS.session_new && response?.result?.sessionId) {
+          await this.attach(response.result.sessionId, connection);
+        }
+        return response;
+      });
+    } finally {
+      this.detach(connection);
+    }
+  }
+
+  // Remove and return the messages queued for a session (`GET /acp/updates`)
+  takeMessages(sessionId: string): SimpleACPMessage[] {
+    const queue = this.queues.get(sessionId) || [];
+    this.queues.delete(sessionId);
+    return queue;
+  }
+
+  async cleanup(): Promise<void> {
+    this.queues.clear();
+    this.connections.clear();
+    await this.agent.cleanup();
+  }
+
+  private async route(message: SimpleACPMessage): Promise<void> {
+    const sessionId = (message as any).params?.sessionId;
+    if (!sessionId) {
+      logger.debug('Dropping outgoing message without a session in HTTP mode:', message);
+      return;
+    }
+
+    const connection = this.connections.get(sessionId);
+    if (connection) {
+      try {
+        await connection.send(message);
+        return;
+      } catch (error) {
+        logger.debug(`Streaming connection for session ${sessionId} failed, queueing instead:`, error);
+        this.detach(connection);
+      }
+    }
+
+    let queue = this.queues.get(sessionId);
+    if (!queue) {
+      queue = [];
+      this.queues.set(sessionId, queue);
+    }
+    queue.push(message);
+
+    if (queue.length > MAX_QUEUED_MESSAGES) {
+      queue.shift();
+      logger.warn(`Dropped oldest queued message for session ${sessionId}`);
+    }
+  }
+}
+
+export function firstHeader(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function jsonResult(statusCode: number, body: any): HttpAcpResult {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
\ No newline at end of file
@@ -1,14 +1,24 @@
 // Cross-platform HTTP server implementation
 // This file provides HTTP server functionality for platforms that support it
 
-import { KodeAcpAgentSimple, SimpleACPMessage, SimpleACPConnection } from './acp-agent-simple.ts';
+import { SimpleACPConnection } from './acp-agent-simple.ts';
 import { KodeACPConfig } from './types.ts';
-import { log } from './utils.ts';
+import { createLogger, withLogContext } from './logger.ts';
+import { generateSessionId } from './utils.ts';
+import { createErrorResponse } from './jsonrpc.ts';
+import { HttpAcpBridge, SESSION_HEADER } from './http-bridge.ts';
+import { SseConnection, StandardWebSocketConnection, acceptWebSocket } from './acp-transports.ts';
+import { DEFAULT_HTTP_HOST, generateAuthToken, HttpAccessControl } from './http-auth.ts';
+
+const logger = createLogger('http');
+
+const DEFAULT_MAX_BODY_SIZE = 10 * 1024 * 1024; // 10 MB
 
 // Type definitions for HTTP server
 export interface HttpRequest {
   method: string;
   url: string;
+  // Header names are lower-case
   headers: Record<string, string>;
   body?: string;
 }
@@ -17,167 +27,346 @@ export interface HttpResponse {
   statusCode: number;
   headers: Record<string, string>;
   body?: string;
+  // Streamed instead of body when set (e.g. Server-Sent Events); cancelled when the client disconnects
+  stream?: ReadableStream<string>;
+}
+
+export type HttpRequestHandler = (req: HttpRequest, res: HttpResponse) => void | Promise<void>;
+export type WebSocketHandler = (req: HttpRequest, connection: SimpleACPConnection) => void;
+
+export interface HttpServerOptions {
+  hostname?: string;
+  // Requests with larger bodies are rejected with 413
+  maxBodySize?: number;
+  // Only upgrade WebSocket requests for this path (all paths when unset); others get 404
+  websocketPath?: string;
+  // Checked before a WebSocket upgrade; a returned response rejects it
+  authorizeUpgrade?: (req: HttpRequest) => HttpResponse | null;
 }
 
 export interface HttpServer {
-  listen(port: number, callback?: () => void): void;
-  close(): void;
-  on(event: string, callback: (req: HttpRequest, res: HttpResponse) => void): void;
+  listen(port: number, callback?: () => void): Promise<void>;
+  close(): Promise<void>;
+  on(event: 'request', callback: HttpRequestHandler): void;
+  on(event: 'websocket', callback: WebSocketHandler): void;
+  on(event: 'error', callback: (error: any) => void): void;
+}
+
+class PayloadTooLargeError extends Error {
+  constructor(limit: number) {
+    super(`Request body exceeds ${limit} bytes`);
+    this.name = 'PayloadTooLargeError';
+  }
 }
 
 // Factory function to create HTTP server (platform-specific)
-export async function createHttpServer(): Promise<HttpServer> {
-  // Try to use Node.js http module if available
+export async function createHttpServer(options: HttpServerOptions = {}): Promise<HttpServer> {
+  // Prefer Deno's native server when running on Deno
+  if (typeof (globalThis as any).Deno?.serve === 'function') {
+    return new DenoHttpServer(options);
+  }
+
   try {
     const http = await import('http');
-    return new NodeHttpServer(http);
+    return new NodeHttpServer(http, options);
   } catch {
-    // Try to use Deno HTTP server if available
+    throw new Error('HTTP server not supported on this platform');
+  }
+}
+
+// Shared request dispatch: handlers run in order and are awaited before the response is sent
+abstract class BaseHttpServer implements HttpServer {
+  protected requestHandlers: HttpRequestHandler[] = [];
+  protected websocketHandlers: WebSocketHandler[] = [];
+  protected errorHandlers: Array<(error: any) => void> = [];
+  protected maxBodySize: number;
+
+  constructor(protected options: HttpServerOptions) {
+    this.maxBodySize = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+  }
+
+  abstract listen(port: number, callback?: () => void): Promise<void>;
+  abstract close(): Promise<void>;
+
+  on(event: string, callback: (...args: any[]) => void): void {
+    if (event === 'request') {
+      this.requestHandlers.push(callback as HttpRequestHandler);
+    } else if (event === 'websocket') {
+      this.websocketHandlers.push(callback as WebSocketHandler);
+    } else if (event === 'error') {
+      this.errorHandlers.push(callback);
+    }
+  }
+
+  protected acceptsWebSocket(url: string): boolean {
+    if (this.websocketHandlers.length === 0) {
+      return false;
+    }
+    const path = this.options.websocketPath;
+    return !path || new URL(url || '/', 'http://localhost').pathname === path;
+  }
+
+  protected rejectUpgrade(request: HttpRequest): HttpResponse | null {
+    return this.options.authorizeUpgrade?.(request) ?? null;
+  }
+
+  protected dispatch(request: HttpRequest): Promise<HttpResponse> {
+    const httpRequestId = requestIdOf(request);
+    const started = Date.now();
+
+    return withLogContext({ httpRequestId }, async () => {
+      const response = await this.runHandlers(request);
+      response.headers = { ...response.headers, 'X-Request-Id': httpRequestId };
+      logger.debug(`${request.method} ${request.url} -> ${response.statusCode} (${Date.now() - started}ms)`);
+      return response;
+    });
+  }
+
+  private async runHandlers(request: HttpRequest): Promise<HttpResponse> {
+    const response: HttpResponse = {
+      statusCode: 404,
+      headers: {},
+      body: '',
+    };
+
     try {
-      // @ts-ignore - Deno specific APIs
-      if (typeof Deno !== 'undefined') {
-        return new DenoHttpServer();
+      for (const handler of this.requestHandlers) {
+        await handler(request, response);
       }
-    } catch {
-      throw new Error('HTTP server not supported on this platform');
+    } catch (error) {
+      logger.error('HTTP handler failed:', error);
+      return {
+        statusCode: 500,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ error: 'Internal server error' }),
+      };
+    }
+
+    return response;
+  }
+
+  protected notifyWebSocket(request: HttpRequest, connection: SimpleACPConnection): void {
+    withLogContext({ httpRequestId: requestIdOf(request) }, () => {
+      logger.debug(`WebSocket connected: ${request.url}`);
+      for (const handler of this.websocketHandlers) {
+        handler(request, connection);
+      }
+    });
+  }
+
+  protected emitError(error: any): void {
+    if (this.errorHandlers.length === 0) {
+      logger.error('HTTP server error:', error);
+    }
+    for (const handler of this.errorHandlers) {
+      handler(error);
     }
-    throw new Error('HTTP server not supported on this platform');
   }
 }
 
 // Node.js HTTP server implementation
-class NodeHttpServer implements HttpServer {
+class NodeHttpServer extends BaseHttpServer {
   private server: any;
-  private requestHandlers: Array<(req: HttpRequest, res: HttpResponse) => void> = [];
 
-  constructor(private http: any) {
-    this.server = this.http.createServer();
-    this.setupServer();
+  constructor(private http: any, options: HttpServerOptions) {
+    super(options);
+    this.server = this.http.createServer((req: any, res: any) => {
+      this.handleRequest(req, res).catch((error) => {
+        logger.error('HTTP request handling failed:', error);
+        if (!res.headersSent) {
+          res.writeHead(500);
+        }
+        res.end();
+      });
+    });
+    this.server.on('upgrade', (req: any, socket: any) => {
+      this.handleUpgrade(req, socket).catch((error) => {
+        logger.error('WebSocket upgrade failed:', error);
+        socket.destroy();
+      });
+    });
+    this.server.on('error', (error: any) => this.emitError(error));
   }
 
-  private setupServer() {
-    this.server.on('request', (req: any, res: any) => {
-      const httpRequest: HttpRequest = {
-        method: req.method,
-        url: req.url,
-        headers: req.headers,
-      };
+  private async handleRequest(req: any, res: any): Promise<void> {
+    let body: string;
+    try {
+      body = await this.readBody(req);
+    } catch (error) {
+      const tooLarge = error instanceof PayloadTooLargeError;
+      res.writeHead(tooLarge ? 413 : 400, { 'Content-Type': 'application/json', Connection: 'close' });
+      res.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+      return;
+    }
 
-      const httpResponse: HttpResponse = {
-        statusCode: 200,
-        headers: {},
-        body: '',
-      };
+    const response = await this.dispatch({
+      method: req.method,
+      url: req.url,
+      headers: normalizeHeaders(req.headers),
+      body,
+    });
 
-      // Call all handlers
-      for (const handler of this.requestHandlers) {
-        handler(httpRequest, httpResponse);
-      }
+    res.writeHead(response.statusCode, response.headers);
 
-      // Send response
-      res.writeHead(httpResponse.statusCode, httpResponse.headers);
-      if (httpResponse.body) {
-        res.end(httpResponse.body);
-      } else {
-        res.end();
+    if (!response.stream) {
+      res.end(response.body || undefined);
+      return;
+    }
+
+    const reader = response.stream.getReader();
+    req.on('close', () => {
+      reader.cancel().catch(() => {});
+    });
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      res.write(value);
+    }
+    res.end();
+  }
+
+  private readBody(req: any): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const declared = Number(req.headers['content-length']);
+      if (declared > this.maxBodySize) {
+        req.resume();
+        reject(new PayloadTooLargeError(this.maxBodySize));
+        return;
       }
+
+      const chunks: Uint8Array[] = [];
+      let size = 0;
+      req.on('data', (chunk: Uint8Array) => {
+        size += chunk.length;
+        if (size > this.maxBodySize) {
+          req.removeAllListeners('data');
+          req.resume();
+          reject(new PayloadTooLargeError(this.maxBodySize));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => {
+        resolve(new TextDecoder().decode(concatChunks(chunks)));
+      });
+      req.on('error', reject);
     });
   }
 
-  listen(port: number, callback?: () => void): void {
-    this.server.listen(port, callback);
+  private async handleUpgrade(req: any, socket: any): Promise<void> {
+    if (!this.acceptsWebSocket(req.url)) {
+      socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    const request: HttpRequest = { method: req.method, url: req.url, headers: normalizeHeaders(req.headers) };
+    const rejection = this.rejectUpgrade(request);
+    if (rejection) {
+      const headers = Object.entries(rejection.headers).map(([name, value]) => `${name}: ${value}\r\n`).join('');
+      const status = `${rejection.statusCode} ${this.http.STATUS_CODES[rejection.statusCode] || ''}`.trim();
+      socket.end(`HTTP/1.1 ${status}\r\n${headers}Connection: close\r\n\r\n${rejection.body || ''}`);
+      return;
+    }
+
+    const connection = await acceptWebSocket(req, socket);
+    if (!connection) {
+      return;
+    }
+
+    this.notifyWebSocket(request, connection);
   }
 
-  close(): void {
-    this.server.close();
+  listen(port: number, callback?: () => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      // Startup failures (e.g. port in use) reject instead of going to the error handlers
+      const onStartupError = (error: any) => reject(error);
+      this.server.once('error', onStartupError);
+      this.server.listen(port, this.options.hostname, () => {
+        this.server.off('error', onStartupError);
+        callback?.();
+        resolve();
+      });
+    });
   }
 
-  on(event: string, callback: (req: HttpRequest, res: HttpResponse) => void): void {
-    if (event === 'request') {
-      this.requestHandlers.push(callback);
-    }
+  close(): Promise<void> {
+    return new Promise((resolve) => {
+      this.server.close(() => resolve());
+      this.server.closeAllConnections?.();
+    });
   }
 }
 
-// Deno HTTP server implementation
-class DenoHttpServer implements HttpServer {
+// Deno HTTP server implementation (Deno.serve)
+class DenoHttpServer extends BaseHttpServer {
   private server?: any;
-  private requestHandlers: Array<(req: HttpRequest, res: HttpResponse) => void> = [];
 
   async listen(port: number, callback?: () => void): Promise<void> {
-    try {
-      // @ts-ignore - Deno specific APIs
-      this.server = Deno.listen({ port });
-      callback?.();
+    const Deno = (globalThis as any).Deno;
 
-      // Start serving requests
-      this.handleConnections();
+    try {
+      this.server = Deno.serve(
+        {
+          port,
+          hostname: this.options.hostname,
+          onListen: () => callback?.(),
+          onError: (error: unknown) => {
+            this.emitError(error);
+            return new Response('Internal server error', { status: 500 });
+          },
+        },
+        (request: Request) => this.handleRequest(request)
+      );
     } catch (error) {
       throw new Error(`Failed to start Deno HTTP server: ${error}`);
     }
   }
 
-  private async handleConnections() {
-    if (!this.server) return;
+  private async handleRequest(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const headers = Object.fromEntries(request.headers.entries());
+    const path = url.pathname + url.search;
 
-    try {
-      // @ts-ignore - Deno specific APIs
-      for await (const conn of this.server) {
-        this.handleConnection(conn);
+    if (request.headers.get('upgrade')?.toLowerCase() === 'websocket') {
+      if (!this.acceptsWebSocket(path)) {
+        return new Response('Not found', { status: 404 });
       }
-    } catch (error) {
-      log('error', 'HTTP server connection error:', error);
+      const rejection = this.rejectUpgrade({ method: request.method, url: path, headers });
+      if (rejection) {
+        return new Response(rejection.body || null, { status: rejection.statusCode, headers: rejection.headers });
+      }
+      const { socket, response } = (globalThis as any).Deno.upgradeWebSocket(request);
+      const connection = new StandardWebSocketConnection(socket);
+      this.notifyWebSocket({ method: request.method, url: path, headers }, connection);
+      return response;
     }
-  }
 
-  private async handleConnection(conn: any) {
+    let body: string;
     try {
-      // @ts-ignore - Deno specific APIs
-      const httpConn = Deno.serveHttp(conn);
-
-      // @ts-ignore - Deno specific APIs
-      for await (const requestEvent of httpConn) {
-        const httpRequest: HttpRequest = {
-          method: requestEvent.request.method,
-          url: requestEvent.request.url,
-          headers: Object.fromEntries(requestEvent.request.headers.entries()),
-        };
-
-        const httpResponse: HttpResponse = {
-          statusCode: 200,
-          headers: {},
-          body: '',
-        };
-
-        // Call all handlers
-        for (const handler of this.requestHandlers) {
-          handler(httpRequest, httpResponse);
-        }
-
-        // Send response
-        await requestEvent.respondWith(
-          // @ts-ignore - Deno specific APIs
-          new Response(httpResponse.body, {
-            status: httpResponse.statusCode,
-            headers: httpResponse.headers,
-          })
-        );
-      }
+      body = await readRequestBody(request, this.maxBodySize);
     } catch (error) {
-      log('error', 'HTTP connection handling error:', error);
+      const tooLarge = error instanceof PayloadTooLargeError;
+      return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+        status: tooLarge ? 413 : 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
     }
-  }
 
-  close(): void {
-    if (this.server) {
-      // @ts-ignore - Deno specific APIs
-      this.server.close();
-    }
+    const response = await this.dispatch({ method: request.method, url: path, headers, body });
+    const responseBody = response.stream
+      ? response.stream.pipeThrough(new TextEncoderStream())
+      : response.body || null;
+
+    return new Response(responseBody, {
+      status: response.statusCode,
+      headers: response.headers,
+    });
   }
 
-  on(event: string, callback: (req: HttpRequest, res: HttpResponse) => void): void {
-    if (event === 'request') {
-      this.requestHandlers.push(callback);
+  async close(): Promise<void> {
+    if (this.server) {
+      await this.server.shutdown();
+      this.server = undefined;
     }
   }
 }
@@ -185,70 +374,188 @@ class DenoHttpServer implements HttpServer {
 // HTTP server factory for Kode ACP
 export async function createKodeAcpHttpServer(
   config: KodeACPConfig = {},
-  port: number = 8080
+  port: number = 8080,
+  options: HttpServerOptions = {}
 ): Promise<HttpServer> {
-  const server = await createHttpServer();
-
-  server.on('request', async (req: HttpRequest, res: HttpResponse) => {
-    if (req.method === 'GET' && req.url === '/health') {
-      res.statusCode = 200;
-      res.headers = { 'Content-Type': 'application/json' };
-      res.body = JSON.stringify({ status: 'healthy' });
-      return;
-    }
+  // Without a configured token, one is generated for this run unless --no-auth opts out
+  const http = { ...config.http, host: options.hostname ?? config.http?.host ?? DEFAULT_HTTP_HOST };
+  if (!http.authToken && !http.noAuth) {
+    http.authToken = generateAuthToken();
+    // Straight to the console, never into a log file
+    console.error(`No auth token configured; clients must send "Authorization: Bearer ${http.authToken}"`);
+  }
 
-    if (req.method === 'POST' && req.url === '/acp') {
-      try {
-        const message: SimpleACPMessage = JSON.parse(req.body || '{}');
+  const access = new HttpAccessControl(http);
+  const hostname = access.host;
+  access.assertSafeBinding();
+  if (!access.requiresToken) {
+    logger.warn('HTTP server runs without an auth token (--no-auth); any local process can use it');
+  }
 
-        const connection: SimpleACPConnection = {
-          async send(response: SimpleACPMessage): Promise<void> {
-            res.statusCode = 200;
-            res.headers = { 'Content-Type': 'application/json' };
-            res.body = JSON.stringify(response);
-          },
+  const server = await createHttpServer({
+    websocketPath: '/acp/ws',
+    authorizeUpgrade: (req) => access.check(req),
+    ...options,
+    hostname,
+  });
 
-          async *receive(): AsyncIterable<SimpleACPMessage> {
-            // HTTP server doesn't need receive method for incoming messages
-            // since each request is handled separately
-            return;
-          },
-        };
+  // Sessions, model selection and permissions live in one agent shared by all requests
+  const bridge = new HttpAcpBridge(config);
+  await bridge.initialize();
 
-        const agent = new KodeAcpAgentSimple(connection, config);
-        await agent.initialize();
+  server.on('request', async (req: HttpRequest, res: HttpResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
 
-        const response = await agent.handleMessage(message);
-        if (response) {
-          await connection.send(response);
-        }
-      } catch (error) {
-        log('error', 'HTTP request failed:', error);
-        res.statusCode = 500;
-        res.headers = { 'Content-Type': 'application/json' };
-        res.body = JSON.stringify({
-          type: 'error',
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
+    if (access.isPreflight(req)) {
+      Object.assign(res, access.preflight(req));
       return;
     }
 
-    // 404 for other routes
-    res.statusCode = 404;
-    res.headers = { 'Content-Type': 'application/json' };
-    res.body = JSON.stringify({ error: 'Not found' });
+    // Health checks stay open so load balancers and supervisors need no token
+    const rejection = url.pathname === '/health' ? null : access.check(req);
+    if (rejection) {
+      Object.assign(res, rejection);
+    } else {
+      await routeAcpRequest(bridge, req, res);
+    }
+    res.headers = { ...res.headers, ...access.corsHeaders(req) };
   });
 
-  server.listen(port, () => {
-    log('info', `Kode ACP HTTP server listening on port ${port}`);
-    log('info', `Health check: http://localhost:${port}/health`);
-    log('info', `ACP endpoint: http://localhost:${port}/acp`);
+  server.on('websocket', (_req: HttpRequest, connection: SimpleACPConnection) => {
+    bridge.serve(connection).catch((error) => logger.error('WebSocket connection failed:', error));
   });
 
-  server.on('error', (error: any) => {
-    log('error', 'HTTP server error:', error);
+  const close = server.close.bind(server);
+  server.close = async () => {
+    await close();
+    await bridge.cleanup();
+  };
+
+  const displayHost = hostname.includes(':') ? `[${hostname}]` : hostname;
+  await server.listen(port, () => {
+    logger.info(`Kode ACP HTTP server listening on ${displayHost}:${port}`);
+    logger.info(`Health check: http://${displayHost}:${port}/health`);
+    logger.info(`ACP endpoint: http://${displayHost}:${port}/acp`);
+    logger.info(`ACP WebSocket: ws://${displayHost}:${port}/acp/ws`);
   });
 
   return server;
+}
+
+async function routeAcpRequest(bridge: HttpAcpBridge, req: HttpRequest, res: HttpResponse): Promise<void> {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (req.method === 'GET' && url.pathname === '/health') {
+    res.statusCode = 200;
+    res.headers = { 'Content-Type': 'application/json' };
+    res.body = JSON.stringify({ status: 'healthy' });
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/acp') {
+    try {
+      const result = await bridge.handlePost(req.body || '', req.headers);
+      res.statusCode = result.statusCode;
+      res.headers = result.headers;
+      res.body = result.body;
+    } catch (error) {
+      logger.error('HTTP request failed:', error);
+      res.statusCode = 500;
+      res.headers = { 'Content-Type': 'application/json' };
+      res.body = JSON.stringify(createErrorResponse(null, error));
+    }
+    return;
+  }
+
+  if (req.method === 'GET' && (url.pathname === '/acp/updates' || url.pathname === '/acp/events')) {
+    const sessionId = url.searchParams.get('sessionId') || req.headers[SESSION_HEADER];
+    if (!sessionId) {
+      res.statusCode = 400;
+      res.headers = { 'Content-Type': 'application/json' };
+      res.body = JSON.stringify({ error: 'Missing sessionId' });
+      return;
+    }
+
+    if (url.pathname === '/acp/updates') {
+      res.statusCode = 200;
+      res.headers = { 'Content-Type': 'application/json' };
+      res.body = JSON.stringify(bridge.takeMessages(sessionId));
+      return;
+    }
+
+    let connection: SseConnection;
+    res.statusCode = 200;
+    res.headers = {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    };
+    res.stream = new ReadableStream<string>({
+      start: async (controller) => {
+        connection = new SseConnection((chunk) => controller.enqueue(chunk));
+        await bridge.attach(sessionId, connection);
+      },
+      cancel: () => {
+        bridge.detach(connection);
+        connection.close();
+      },
+    });
+    return;
+  }
+
+  // 404 for other routes
+  res.statusCode = 404;
+  res.headers = { 'Content-Type': 'application/json' };
+  res.body = JSON.stringify({ error: 'Not found' });
+}
+
+// Read a Fetch API request body, enforcing the size limit while streaming
+async function readRequestBody(request: Request, limit: number): Promise<string> {
+  if (Number(request.headers.get('content-length')) > limit) {
+    throw new PayloadTooLargeError(limit);
+  }
+  if (!request.body) {
+    return '';
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel();
+      throw new PayloadTooLargeError(limit);
+    }
+    chunks.push(value);
+  }
+  return new TextDecoder().decode(concatChunks(chunks));
+}
+
+// Honour a client-supplied X-Request-Id so log lines can be correlated across services
+function requestIdOf(request: HttpRequest): string {
+  const supplied = request.headers['x-request-id'];
+  return supplied && supplied.length <= 128 ? supplied : generateSessionId();
+}
+
+function normalizeHeaders(headers: Record<string, string | string[] | undefined>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      result[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+  return result;
+}
+
+function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
 }
\ No newline at end of file
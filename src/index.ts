@@ -1,10 +1,13 @@
 #!/usr/bin/env node
 
-import { createServer } from 'http';
 import { KodeAcpAgentSimple, SimpleACPMessage, SimpleACPConnection } from './acp-agent-simple.ts';
+import { createKodeAcpHttpServer } from './http-server.ts';
 import { KodeACPConfig } from './types.ts';
 import { log } from './utils.ts';
+import { parseJsonRpcMessage, serveJsonRpc } from './jsonrpc.ts';
 import { parseArgs } from 'node:util';
+import { ConfigError, loadConfig } from './config-loader.ts';
+import { configureLogging, loggingOptionsFromConfig } from './logger.ts';
 
 // Redirect console.log to stderr to avoid interfering with ACP protocol
 console.log = console.error;
@@ -38,16 +41,49 @@ const args = parseArgs({
       type: 'string',
       short: 'd',
     },
+    'allow-path': {
+      type: 'string',
+      multiple: true,
+    },
+    'persistent-shell': {
+      type: 'boolean',
+    },
     'permission-mode': {
       type: 'string',
     },
     'log-level': {
       type: 'string',
     },
+    'log-format': {
+      type: 'string',
+    },
+    'log-file': {
+      type: 'string',
+    },
     port: {
       type: 'string',
       short: 'p',
     },
+    config: {
+      type: 'string',
+      short: 'c',
+    },
+    host: {
+      type: 'string',
+    },
+    'auth-token': {
+      type: 'string',
+    },
+    'auth-token-file': {
+      type: 'string',
+    },
+    'no-auth': {
+      type: 'boolean',
+    },
+    'cors-origin': {
+      type: 'string',
+      multiple: true,
+    },
   },
   allowPositionals: false,
 });
@@ -61,24 +97,52 @@ USAGE:
 
 OPTIONS:
   -h, --help                 Show this help message
+  -c, --config FILE          Read configuration from FILE instead of the project config file
   -v, --version              Show version information
   -d, --working-directory DIR Set working directory [default: current directory]
+      --allow-path DIR       Let file tools use DIR outside the working directory (repeatable)
+      --persistent-shell     Keep one shell per session so cd and export carry over between commands
       --permission-mode MODE Set permission mode [safe|yolo] [default: yolo]
       --log-level LEVEL      Set log level [debug|info|warn|error] [default: info]
+      --log-format FORMAT    Log line format [text|json] [default: text]
+      --log-file FILE        Also write logs to FILE (rotated at 10 MB, 5 files kept)
   -p, --port PORT           Run as HTTP server on specified port
+      --host HOST            Interface for the HTTP server [default: 127.0.0.1]
+      --auth-token TOKEN     Bearer token required by the HTTP server
+      --auth-token-file FILE Read the bearer token from a file
+      --no-auth              Serve HTTP on localhost without a token instead of generating one
+      --cors-origin ORIGIN   Allow browser requests from ORIGIN (repeatable, * for any)
 
 EXAMPLES:
   kode-acp                                    Run as stdio agent
   kode-acp --port 8080                       Run as HTTP server
+  kode-acp --port 8080 --host 0.0.0.0 --auth-token-file ~/.kode-token
+                                             Serve the network with a token
   kode-acp --working-directory /path/to/project  Set working directory
   kode-acp --permission-mode safe           Enable safe mode
   kode-acp --log-level debug                 Enable debug logging
 
+CONFIGURATION FILES:
+  User:    ~/.config/kode-acp/config.{json,toml} or ~/kode-acp.json, ~/.kode-acp.json, ~/.kode-acp.toml
+  Project: kode-acp.json, .kode-acp.json, kode-acp.toml or .kode-acp.toml in the working directory
+  Precedence: user file < project file < environment variables < command-line flags
+
 ENVIRONMENT VARIABLES:
+  KODE_CONFIG                 Configuration file (same as --config)
   KODE_WORKING_DIRECTORY        Working directory
+  KODE_ALLOWED_PATHS          Comma-separated directories file tools may use outside it
   KODE_PERMISSION_MODE         Permission mode (safe|yolo)
   KODE_LOG_LEVEL              Log level (debug|info|warn|error)
+  KODE_LOG_FORMAT             Log line format (text|json)
+  KODE_LOG_FILE               Log file
+  KODE_DEFAULT_MODEL          Model profile used for new sessions
+  KODE_TOOL_BACKEND           Tool backend (builtin|auto|kode)
+  KODE_PERSISTENT_SHELL       Keep one shell per session (true|false)
   KODE_PORT                   HTTP server port
+  KODE_HOST                   HTTP server interface
+  KODE_AUTH_TOKEN             HTTP bearer token
+  KODE_AUTH_TOKEN_FILE        File containing the HTTP bearer token
+  KODE_CORS_ORIGINS           Comma-separated origins allowed to make browser requests
 
 For more information, visit: https://github.com/shareAI-lab/kode
 `);
@@ -90,14 +154,46 @@ if (args.values.version) {
   process.exit(0);
 }
 
-// Create configuration
-const config: KodeACPConfig = {
-  workingDirectory: args.values['working-directory'] || process.env.KODE_WORKING_DIRECTORY || process.cwd(),
-  permissionMode: (args.values['permission-mode'] as 'safe' | 'yolo') || (process.env.KODE_PERMISSION_MODE as 'safe' | 'yolo') || 'yolo',
-  logLevel: (args.values['log-level'] as 'debug' | 'info' | 'warn' | 'error') || (process.env.KODE_LOG_LEVEL as 'debug' | 'info' | 'warn' | 'error') || 'info',
-};
+// Create configuration: config files, then KODE_* variables, then flags
+function buildConfig(): KodeACPConfig {
+  const flags: KodeACPConfig = {
+    workingDirectory: args.values['working-directory'],
+    allowedPaths: args.values['allow-path'],
+    persistentShell: args.values['persistent-shell'],
+    permissionMode: args.values['permission-mode'] as KodeACPConfig['permissionMode'],
+    logLevel: args.values['log-level'] as KodeACPConfig['logLevel'],
+    logFormat: args.values['log-format'] as KodeACPConfig['logFormat'],
+    logFile: args.values['log-file'],
+    http: {
+      port: args.values.port === undefined ? undefined : Number(args.values.port),
+      host: args.values.host,
+      authToken: args.values['auth-token'],
+      authTokenFile: args.values['auth-token-file'],
+      noAuth: args.values['no-auth'],
+      corsOrigins: args.values['cors-origin'],
+    },
+  };
 
-const port = args.values.port || process.env.KODE_PORT;
+  try {
+    const { config, files } = loadConfig({ overrides: flags, env: process.env, configFile: args.values.config });
+    configureLogging(loggingOptionsFromConfig(config));
+    for (const file of files) {
+      log('debug', `Loaded configuration from ${file}`);
+    }
+    return {
+      workingDirectory: process.cwd(),
+      permissionMode: 'yolo',
+      logLevel: 'info',
+      ...config,
+    };
+  } catch (error) {
+    console.error(error instanceof ConfigError ? error.message : `Failed to load configuration: ${error}`);
+    process.exit(1);
+  }
+}
+
+const config = buildConfig();
+const port = config.http?.port;
 
 async function runAcpAgent() {
   log('info', 'Starting Kode ACP agent...');
@@ -116,27 +212,33 @@ async function runAcpAgent() {
 
 async function runStdioAgent() {
   try {
-    // Create stdio connection
+    // Start reading stdin before the agent initializes: stdin is already flowing, and the
+    // iterator buffers the lines that arrive in the meantime
+    const readline = await import('readline');
+    const lines = readline.createInterface({
+      input: process.stdin,
+      terminal: false,
+    })[Symbol.asyncIterator]();
+
+    // Create stdio connection (newline-delimited JSON-RPC 2.0)
     const connection: SimpleACPConnection = {
       async send(message: SimpleACPMessage) {
-        console.log(JSON.stringify(message));
+        process.stdout.write(JSON.stringify(message) + '\n');
       },
 
       async *receive() {
-        const readline = await import('readline');
-        const rl = readline.createInterface({
-          input: process.stdin,
-          output: process.stdout,
-          terminal: false,
-        });
-
-        for await (const line of rl) {
-          try {
-            const message: SimpleACPMessage = JSON.parse(line);
-            yield message;
-          } catch (error) {
-            log('error', 'Failed to parse message:', error);
+        for await (const line of lines) {
+          if (!line.trim()) {
+            continue;
+          }
+
+          const parsed = parseJsonRpcMessage(line);
+          if (parsed.error) {
+            log('error', 'Rejected invalid message:', parsed.error.error?.data);
+            await this.send(parsed.error);
+            continue;
           }
+          yield parsed.message;
         }
       },
     };
@@ -147,80 +249,17 @@ async function runStdioAgent() {
     await agent.initialize();
 
     // Handle incoming messages
-    for await (const message of connection.receive()) {
-      try {
-        const response = await agent.handleMessage(message);
-        if (response) {
-          await connection.send(response);
-        }
-      } catch (error) {
-        log('error', 'Failed to handle message:', error);
-        await connection.send({
-          type: 'error',
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
-    }
+    await serveJsonRpc(connection, (message) => agent.handleMessage(message), () => agent.disconnect());
+    await agent.cleanup();
+    process.exit(0);
   } catch (error) {
     log('error', 'Stdio agent failed:', error);
     process.exit(1);
   }
 }
 
-async function runHttpServer(port: string) {
-  const server = createServer(async (req, res) => {
-    if (req.method === 'GET' && req.url === '/health') {
-      res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ status: 'healthy' }));
-      return;
-    }
-
-    if (req.method === 'POST' && req.url === '/acp') {
-      try {
-        const body = await getRequestBody(req);
-        const message: SimpleACPMessage = JSON.parse(body);
-
-        const connection: SimpleACPConnection = {
-          async send(response: SimpleACPMessage) {
-            res.writeHead(200, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify(response));
-          },
-
-          async *receive() {
-            // HTTP server doesn't need receive method for incoming messages
-            // since each request is handled separately
-            // Return an empty iterator
-            return;
-          },
-        };
-
-        const agent = new KodeAcpAgentSimple(connection, config);
-        await agent.initialize();
-
-        const response = await agent.handleMessage(message);
-        if (response) {
-          await connection.send(response);
-        }
-      } catch (error) {
-        log('error', 'HTTP request failed:', error);
-        res.writeHead(500, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({
-          type: 'error',
-          error: error instanceof Error ? error.message : String(error),
-        }));
-      }
-      return;
-    }
-
-    res.writeHead(404, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ error: 'Not found' }));
-  });
-
-  server.listen(parseInt(port), () => {
-    log('info', `Kode ACP HTTP server listening on port ${port}`);
-    log('info', `Health check: http://localhost:${port}/health`);
-    log('info', `ACP endpoint: http://localhost:${port}/acp`);
-  });
+async function runHttpServer(port: number) {
+  const server = await createKodeAcpHttpServer(config, port);
 
   server.on('error', (error) => {
     log('error', 'HTTP server error:', error);
@@ -228,19 +267,6 @@ async function runHttpServer(port: string) {
   });
 }
 
-function getRequestBody(req: any): Promise<string> {
-  return new Promise((resolve, reject) => {
-    let body = '';
-    req.on('data', (chunk: any) => {
-      body += chunk.toString();
-    });
-    req.on('end', () => {
-      resolve(body);
-    });
-    req.on('error', reject);
-  });
-}
-
 // Start the agent
 runAcpAgent().catch((error) => {
   log('error', 'Failed to start Kode ACP agent:', error);
@@ -0,0 +1,109 @@
+// The JSON Schema subset used for tool inputs, and a validator reporting "path: problem" messages
+// Supported keywords: type (including integer), properties, required, additionalProperties, items,
+// enum, minimum, maximum and minLength; anything else is accepted as-is
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+export interface JsonSchema {
+  type?: JsonSchemaType;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  // false rejects properties not listed in `properties`; a schema checks them against it
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: (string | number | boolean)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+}
+
+// Problems with the value, empty when it matches. Optional properties may be null, which models
+// often send for fields they leave out.
+export function validateJsonSchema(schema: JsonSchema, value: any, path: string = ''): string[] {
+  const problems: string[] = [];
+  check(schema, value, path, problems);
+  return problems;
+}
+
+function check(schema: JsonSchema, value: any, path: string, problems: string[]): void {
+  const label = path || 'input';
+
+  if (schema.type && !matchesType(schema.type, value)) {
+    problems.push(`${label}: expected ${article(schema.type)}, got ${describe(value)}`);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    problems.push(`${label}: expected one of ${schema.enum.join(', ')}, got ${describe(value)}`);
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      problems.push(`${label}: must be at least ${schema.minimum}, got ${value}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      problems.push(`${label}: must be at most ${schema.maximum}, got ${value}`);
+    }
+  }
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    problems.push(schema.minLength === 1 ? `${label}: must not be empty` : `${label}: must be at least ${schema.minLength} characters`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => check(schema.items!, item, `${label}[${index}]`, problems));
+  }
+
+  if (schema.type === 'object') {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined || value[key] === null) {
+        problems.push(`${path ? `${path}.` : ''}${key}: required`);
+      }
+    }
+    for (const [key, property] of Object.entries(schema.properties || {})) {
+      const item = value[key];
+      if (item !== undefined && item !== null) {
+        check(property, item, path ? `${path}.${key}` : key, problems);
+      }
+    }
+    const additional = schema.additionalProperties;
+    if (additional !== undefined && additional !== true) {
+      const known = new Set(Object.keys(schema.properties || {}));
+      for (const key of Object.keys(value).filter((key) => !known.has(key))) {
+        if (additional === false) {
+          problems.push(`${path ? `${path}.` : ''}${key}: not allowed`);
+        } else if (value[key] !== undefined && value[key] !== null) {
+          check(additional, value[key], path ? `${path}.${key}` : key, problems);
+        }
+      }
+    }
+  }
+}
+
+function matchesType(type: JsonSchemaType, value: any): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function article(type: JsonSchemaType): string {
+  return type === 'object' || type === 'array' || type === 'integer' ? `an ${type}` : `a ${type}`;
+}
+
+function describe(value: any): string {
+  return Array.isArray(value) ? 'an array'
+    : value === null ? 'null'
+    : value === undefined ? 'nothing'
+    : typeof value === 'string' ? JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value)
+    : typeof value === 'number' || typeof value === 'boolean' ? String(value)
+    : typeof value;
+}
@@ -0,0 +1,263 @@
+// JSON-RPC 2.0 transport for the Agent Client Protocol
+// Handles id correlation, method dispatch and spec error codes on top of a SimpleACPConnection
+
+import { log } from './utils.ts';
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  method: string;
+  params?: any;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: any;
+}
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId | null;
+  result?: any;
+  error?: JsonRpcErrorObject;
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+// Standard JSON-RPC 2.0 error codes (plus the ACP auth code)
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  AUTH_REQUIRED: -32000,
+} as const;
+
+// Methods implemented by the agent (client -> agent)
+export const AGENT_METHODS = {
+  initialize: 'initialize',
+  authenticate: 'authenticate',
+  session_new: 'session/new',
+  session_load: 'session/load',
+  session_prompt: 'session/prompt',
+  session_cancel: 'session/cancel',
+  session_set_mode: 'session/set_mode',
+  session_set_model: 'session/set_model',
+  // Kode extension methods
+  kode_tool_call: '_kode/tool_call',
+  kode_model_command: '_kode/model_command',
+  kode_list_models: '_kode/list_models',
+} as const;
+
+// Methods implemented by the client (agent -> client)
+export const CLIENT_METHODS = {
+  session_update: 'session/update',
+  session_request_permission: 'session/request_permission',
+  fs_read_text_file: 'fs/read_text_file',
+  fs_write_text_file: 'fs/write_text_file',
+} as const;
+
+export const ACP_PROTOCOL_VERSION = 1;
+
+export class RpcError extends Error {
+  constructor(
+    public code: number,
+    message: string,
+    public data?: any
+  ) {
+    super(message);
+    this.name = 'RpcError';
+  }
+
+  static parseError(details?: string): RpcError {
+    return new RpcError(JSON_RPC_ERRORS.PARSE_ERROR, 'Parse error', details);
+  }
+
+  static invalidRequest(details?: string): RpcError {
+    return new RpcError(JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid request', details);
+  }
+
+  static methodNotFound(method: string): RpcError {
+    return new RpcError(JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${method}`);
+  }
+
+  static invalidParams(details?: string): RpcError {
+    return new RpcError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Invalid params', details);
+  }
+
+  static internalError(details?: string): RpcError {
+    return new RpcError(JSON_RPC_ERRORS.INTERNAL_ERROR, 'Internal error', details);
+  }
+
+  toErrorObject(): JsonRpcErrorObject {
+    return this.data === undefined
+      ? { code: this.code, message: this.message }
+      : { code: this.code, message: this.message, data: this.data };
+  }
+}
+
+export function isJsonRpcRequest(message: any): message is JsonRpcRequest {
+  return isObject(message) && typeof message.method === 'string' && message.id !== undefined && message.id !== null;
+}
+
+export function isJsonRpcNotification(message: any): message is JsonRpcNotification {
+  return isObject(message) && typeof message.method === 'string' && (message.id === undefined || message.id === null);
+}
+
+export function isJsonRpcResponse(message: any): message is JsonRpcResponse {
+  return isObject(message) && message.method === undefined && ('result' in message || 'error' in message);
+}
+
+export function createResponse(id: JsonRpcId | null, result: any): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, result: result ?? null };
+}
+
+export function createErrorResponse(id: JsonRpcId | null, error: unknown): JsonRpcResponse {
+  const rpcError = error instanceof RpcError
+    ? error
+    : RpcError.internalError(error instanceof Error ? error.message : String(error));
+
+  return { jsonrpc: '2.0', id, error: rpcError.toErrorObject() };
+}
+
+// Outcome of parsing incoming text: a message to dispatch, or an error response that must go
+// straight back to the peer (invalid JSON, or JSON that is not a JSON-RPC 2.0 message)
+export type ParsedJsonRpcMessage =
+  | { message: JsonRpcMessage; error?: undefined }
+  | { message?: undefined; error: JsonRpcResponse };
+
+// Parse one line/body of incoming text
+export function parseJsonRpcMessage(text: string): ParsedJsonRpcMessage {
+  let message: any;
+  try {
+    message = JSON.parse(text);
+  } catch (error) {
+    return { error: createErrorResponse(null, RpcError.parseError(error instanceof Error ? error.message : String(error))) };
+  }
+
+  if (!isObject(message) || message.jsonrpc !== '2.0'
+    || !(isJsonRpcRequest(message) || isJsonRpcNotification(message) || isJsonRpcResponse(message))) {
+    // Reply to the request's id when it has a usable one, so the client can match the error
+    const id = isObject(message) && (typeof message.id === 'string' || typeof message.id === 'number') ? message.id : null;
+    return { error: createErrorResponse(id, RpcError.invalidRequest('Expected a JSON-RPC 2.0 message')) };
+  }
+  return { message: message as JsonRpcMessage };
+}
+
+type PendingRequest = {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+};
+
+// Outgoing side of the peer: agent -> client requests and notifications
+export class JsonRpcPeer {
+  private nextId: number = 0;
+  private pendingRequests: Map<JsonRpcId, PendingRequest> = new Map();
+  // Set once the peer can no longer answer; later requests fail right away
+  private closedReason: string | null = null;
+
+  constructor(private sendMessage: (message: JsonRpcMessage) => Promise<void>) {}
+
+  async notify(method: string, params?: any): Promise<void> {
+    await this.sendMessage({ jsonrpc: '2.0', method, params });
+  }
+
+  request<T = any>(method: string, params?: any): Promise<T> {
+    if (this.closedReason) {
+      return Promise.reject(new Error(this.closedReason));
+    }
+    const id = `agent_${++this.nextId}`;
+
+    return new Promise<T>((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve, reject });
+      this.sendMessage({ jsonrpc: '2.0', id, method, params }).catch((error) => {
+        this.pendingRequests.delete(id);
+        reject(error);
+      });
+    });
+  }
+
+  // Resolve a pending outgoing request; returns false if the id is unknown
+  handleResponse(response: JsonRpcResponse): boolean {
+    const id = response.id;
+    if (id === null || !this.pendingRequests.has(id)) {
+      log('warn', `Received response for unknown request id: ${id}`);
+      return false;
+    }
+
+    const pending = this.pendingRequests.get(id)!;
+    this.pendingRequests.delete(id);
+
+    if (response.error) {
+      pending.reject(new RpcError(response.error.code, response.error.message, response.error.data));
+    } else {
+      pending.resolve(response.result);
+    }
+    return true;
+  }
+
+  rejectAll(reason: string): void {
+    for (const [id, { reject }] of this.pendingRequests) {
+      reject(new Error(reason));
+      this.pendingRequests.delete(id);
+    }
+  }
+
+  // The other side is gone: fail pending and future requests instead of waiting forever
+  close(reason: string): void {
+    this.closedReason = reason;
+    this.rejectAll(reason);
+  }
+}
+
+// Read messages from a connection and dispatch them concurrently so that long-running
+// requests (prompt turns) do not block responses to agent -> client requests. onInputEnd runs
+// when the input ends, before waiting for requests in flight: those waiting on a reply from the
+// client (a permission request) only finish once it fails them.
+export async function serveJsonRpc(
+  connection: {
+    send(message: any): Promise<void>;
+    receive(): AsyncIterable<any>;
+  },
+  handleMessage: (message: any) => Promise<JsonRpcResponse | void>,
+  onInputEnd?: () => void | Promise<void>
+): Promise<void> {
+  const inFlight = new Set<Promise<void>>();
+
+  for await (const message of connection.receive()) {
+    const task = handleMessage(message)
+      .then(async (response) => {
+        if (response) {
+          await connection.send(response);
+        }
+      })
+      .catch(async (error) => {
+        log('error', 'Failed to handle message:', error);
+        if (isJsonRpcRequest(message)) {
+          await connection.send(createErrorResponse(message.id, error));
+        }
+      })
+      .finally(() => {
+        inFlight.delete(task);
+      });
+
+    inFlight.add(task);
+  }
+
+  await onInputEnd?.();
+  await Promise.allSettled(inFlight);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
\ No newline at end of file
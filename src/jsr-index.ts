@@ -4,18 +4,23 @@
 import { KodeAcpAgentSimple, SimpleACPMessage, SimpleACPConnection } from './acp-agent-simple.ts';
 import { KodeACPConfig } from './types.ts';
 import { log } from './utils.ts';
+import { configureLogging, loggingOptionsFromConfig } from './logger.ts';
+import { parseJsonRpcMessage, serveJsonRpc } from './jsonrpc.ts';
 
 // Export the main class
 export { KodeAcpAgentSimple } from './acp-agent-simple.ts';
 
 // Export config type
-export type { KodeACPConfig } from './types.ts';
+export type { CommandPolicyConfig, KodeACPConfig, KodeHttpConfig, ToolMappingConfig } from './types.ts';
 
 // Export session and tool types
 export type {
   KodeSession,
   KodeToolCall,
-  KodeToolResult
+  KodeToolResult,
+  ACPSessionUpdate,
+  ACPPlanEntry,
+  ACPToolCallStatus,
 } from './types.ts';
 
 // Export message and connection interfaces
@@ -24,11 +29,63 @@ export type {
   SimpleACPConnection
 } from './acp-agent-simple.ts';
 
+// Re-export JSON-RPC transport
+export {
+  ACP_PROTOCOL_VERSION,
+  AGENT_METHODS,
+  CLIENT_METHODS,
+  JSON_RPC_ERRORS,
+  JsonRpcPeer,
+  RpcError,
+  serveJsonRpc,
+} from './jsonrpc.ts';
+export type {
+  JsonRpcId,
+  JsonRpcMessage,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcNotification,
+  JsonRpcErrorObject,
+} from './jsonrpc.ts';
+
+// Re-export model providers
+export { MultiModelManager, DEFAULT_MODEL_PROFILES, DEFAULT_MODEL_POINTERS } from './multi-model.ts';
+export type { ModelProfile, ModelPointers, ModelCallOptions } from './multi-model.ts';
+export {
+  AnthropicProvider,
+  OpenAIProvider,
+  GoogleProvider,
+  ModelProviderError,
+  createDefaultProviders,
+} from './model-providers.ts';
+export type {
+  ModelProvider,
+  ModelMessage,
+  ModelContentBlock,
+  ModelRequest,
+  ModelResponse,
+  ModelToolDefinition,
+} from './model-providers.ts';
+export {
+  KODE_TOOL_DEFINITIONS,
+  getToolDefinition,
+  getToolInputSchema,
+  validateToolInput,
+  type KodeToolDefinition,
+} from './tool-definitions.ts';
+export { validateJsonSchema, type JsonSchema, type JsonSchemaType } from './json-schema.ts';
+export { BuiltinToolExecutor, readTextFile, applyTextEdits } from './builtin-tools.ts';
+export type { TodoItem, TextEdit } from './builtin-tools.ts';
+export { getToolInfo, previewFileChange, diffContent, changeLocation, isFileChangeTool } from './tool-info.ts';
+export type { FileChange } from './tool-info.ts';
+
 // Re-export utility functions
 export {
   generateSessionId,
+  getEnv,
   log as logger,
   sanitizePath,
+  normalizePath,
   isAbsolutePath,
   joinPaths
 } from './utils.ts';
@@ -39,8 +96,12 @@ export {
   executeCommand,
   spawnProcess,
   isCommandAvailable,
-  processManager
+  processManager,
+  OutputBuffer,
+  OutputRing,
+  PersistentShell
 } from './process-manager.ts';
+export type { BackgroundShellInfo, BackgroundShellOutput, ProcessInfo } from './process-manager.ts';
 
 // Re-export event emitter
 export { EventEmitter } from './event-emitter.ts';
@@ -57,11 +118,15 @@ export {
 export {
   ACPToolConverter,
   ToolPermissionManager,
+  PERMISSION_MODES,
   defaultToolConverter,
+  toolMappingFromConfig,
 } from './tool-converter.ts';
 export type {
   ToolPermission,
   PermissionMode,
+  PermissionDecision,
+  PermissionPrompt,
   ToolMapping,
   ToolConverter,
 } from './tool-converter.ts';
@@ -72,10 +137,60 @@ export {
   sessionManager,
   SessionUtils,
   type SessionConfig,
+  type SessionManagerOptions,
   type SessionState,
   type SessionEvent,
 } from './session-manager.ts';
 
+// Re-export logging
+export {
+  Logger,
+  createLogger,
+  configureLogging,
+  loggingOptionsFromConfig,
+  withLogContext,
+  getLogLevel,
+  isLogLevelEnabled,
+  type LogLevel,
+  type LogFormat,
+  type LogFields,
+  type LoggingOptions,
+} from './logger.ts';
+
+// Re-export configuration loading
+export {
+  loadConfig,
+  readConfigFile,
+  configFromEnv,
+  mergeConfigs,
+  validateConfig,
+  ConfigError,
+  CONFIG_FILE_NAMES,
+  type LoadConfigOptions,
+  type LoadedConfig,
+} from './config-loader.ts';
+export { parseToml, TomlParseError } from './toml.ts';
+
+// Re-export the file tool sandbox
+export { PathSandbox, PathSandboxError, createPathSandbox, TOOL_PATH_FIELDS } from './path-sandbox.ts';
+
+// Re-export the Bash command policy
+export {
+  CommandPolicy,
+  CommandParseError,
+  parseCommandLine,
+  DEFAULT_ALLOWED_COMMANDS,
+  DEFAULT_DENIED_COMMANDS,
+  type CommandPolicyDecision,
+  type ParsedCommandLine,
+  type SimpleCommand,
+} from './command-policy.ts';
+
+// Re-export HTTP bridge (runtime agnostic, no HTTP server required)
+export { HttpAcpBridge, SESSION_HEADER, type HttpAcpResult } from './http-bridge.ts';
+export { SseConnection, WebSocketConnection, StandardWebSocketConnection, acceptWebSocket } from './acp-transports.ts';
+export { HttpAccessControl, DEFAULT_HTTP_HOST, isLoopbackHost } from './http-auth.ts';
+
 // Lazy import for HTTP server (only when needed)
 export async function getHttpServer(): Promise<any> {
   try {
@@ -98,53 +213,71 @@ export function createKodeAcpAgent(
 export function createStdioConnection(): SimpleACPConnection {
   return {
     async send(message: SimpleACPMessage): Promise<void> {
-      console.log(JSON.stringify(message));
+      const line = JSON.stringify(message) + '\n';
+      if (typeof process !== 'undefined') {
+        process.stdout.write(line);
+      } else {
+        await (globalThis as any).Deno.stdout.write(new TextEncoder().encode(line));
+      }
     },
 
     async *receive(): AsyncIterable<SimpleACPMessage> {
-      // Try to use Node.js readline if available
-      try {
-        const readline = await import('readline');
-        const rl = readline.createInterface({
-          input: process.stdin,
-          output: process.stdout,
-          terminal: false,
-        });
-
-        for await (const line of rl) {
-          try {
-            const message: SimpleACPMessage = JSON.parse(line);
-            yield message;
-          } catch (error) {
-            log('error', 'Failed to parse message:', error);
-          }
+      for await (const line of readStdinLines()) {
+        if (!line.trim()) {
+          continue;
         }
-      } catch {
-        // Fallback for Deno or other environments
-        const decoder = new TextDecoder();
-        const buffer = new Uint8Array(1024);
-
-        while (true) {
-          const n = await Deno.stdin.read(buffer);
-          if (n === null) break;
-
-          const line = decoder.decode(buffer.subarray(0, n)).trim();
-          if (line) {
-            try {
-              const message: SimpleACPMessage = JSON.parse(line);
-              yield message;
-            } catch (error) {
-              log('error', 'Failed to parse message:', error);
-            }
-          }
+
+        const parsed = parseJsonRpcMessage(line);
+        if (parsed.error) {
+          log('error', 'Rejected invalid message:', parsed.error.error?.data);
+          await this.send(parsed.error);
+          continue;
         }
+        yield parsed.message;
       }
     },
   };
 }
 
+async function* readStdinLines(): AsyncIterable<string> {
+  // Try to use Node.js readline if available
+  try {
+    const readline = await import('readline');
+    const rl = readline.createInterface({
+      input: process.stdin,
+      terminal: false,
+    });
+
+    for await (const line of rl) {
+      yield line;
+    }
+  } catch {
+    // Fallback for Deno or other environments
+    const decoder = new TextDecoder();
+    const buffer = new Uint8Array(1024);
+    let pending = '';
+
+    while (true) {
+      const n = await Deno.stdin.read(buffer);
+      if (n === null) break;
+
+      pending += decoder.decode(buffer.subarray(0, n), { stream: true });
+      const lines = pending.split('\n');
+      pending = lines.pop() || '';
+      yield* lines;
+    }
+
+    if (pending) {
+      yield pending;
+    }
+  }
+}
+
 // Main function for JSR users
 export async function runKodeAcp(config?: KodeACPConfig): Promise<void> {
+  if (config) {
+    configureLogging(loggingOptionsFromConfig(config));
+  }
   const connection = createStdioConnection();
   const agent = createKodeAcpAgent(connection, config);
 
@@ -152,20 +285,8 @@ export async function runKodeAcp(config?: KodeACPConfig): Promise<void> {
     await agent.initialize();
 
     // Handle incoming messages
-    for await (const message of connection.receive()) {
-      try {
-        const response = await agent.handleMessage(message);
-        if (response) {
-          await connection.send(response);
-        }
-      } catch (error) {
-        log('error', 'Failed to handle message:', error);
-        await connection.send({
-          type: 'error',
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
-    }
+    await serveJsonRpc(connection, (message) => agent.handleMessage(message), () => agent.disconnect());
+    await agent.cleanup();
   } catch (error) {
     log('error', 'Kode ACP agent failed:', error);
     if (typeof process !== 'undefined') {
@@ -1,20 +1,56 @@
 import { EventEmitter } from './event-emitter.ts';
-import { KodeToolCall, KodeToolResult, KodeACPConfig } from './types.ts';
-import { log } from './utils.ts';
+import { KodeToolCall, KodeToolResult, KodeACPConfig, ToolExecutionContext } from './types.ts';
+import { createLogger } from './logger.ts';
+import { getToolDefinition, validateToolInput } from './tool-definitions.ts';
+import { BUILTIN_TOOLS, BuiltinToolExecutor, CLIENT_FILE_SYSTEM_TOOLS } from './builtin-tools.ts';
+import { createPathSandbox, PathSandboxError } from './path-sandbox.ts';
+import type { ModelToolDefinition } from './model-providers.ts';
 import {
   CrossPlatformProcess,
-  executeCommand,
   spawnProcess,
   isCommandAvailable,
+  readProcessLines,
   ProcessManager
 } from './process-manager.ts';
 
+const logger = createLogger('kode');
+
+type PendingRequest = {
+  resolve: (result: KodeToolResult) => void;
+  reject: (error: Error) => void;
+};
+
+type Handshake = {
+  id: string;
+  child: CrossPlatformProcess;
+  finish: (error?: Error) => void;
+};
+
+const DEFAULT_KODE_ARGS = ['tool-server', '--stdio'];
+// Version of the line-delimited tool protocol; the subprocess must echo it in its `initialize` result
+export const KODE_PROTOCOL_VERSION = 1;
+const HANDSHAKE_TIMEOUT_MS = 5000;
+// Limit for one tool call. Tools with their own `timeout` input (Bash) get that plus a grace
+// period to stop and report, so this limit never fires before theirs.
+const DEFAULT_TOOL_TIMEOUT_MS = 300000;
+const TOOL_TIMEOUT_GRACE_MS = 30000;
+const MAX_RESTARTS = 3;
+const RESTART_WINDOW_MS = 60000;
+
 export class KodeIntegration extends EventEmitter {
   private config: KodeACPConfig;
   private kodeProcess: CrossPlatformProcess | null = null;
-  private pendingRequests: Map<string, { resolve: Function; reject: Function }> = new Map();
+  private pendingRequests: Map<string, PendingRequest> = new Map();
+  // Requests currently delegated to the Kode subprocess, keyed like pendingRequests
+  private kodeRequests: Map<string, KodeToolCall> = new Map();
+  // The `initialize` request a newly started subprocess has not answered yet
+  private handshake: Handshake | null = null;
+  private restartTimes: number[] = [];
+  private restarting: Promise<void> | null = null;
+  private shuttingDown: boolean = false;
   private initialized: boolean = false;
   private processManager: ProcessManager;
+  private builtinTools: BuiltinToolExecutor;
 
   constructor(config: KodeACPConfig) {
     super();
@@ -25,6 +61,7 @@ export class KodeIntegration extends EventEmitter {
       ...config,
     };
     this.processManager = ProcessManager.getInstance();
+    this.builtinTools = new BuiltinToolExecutor(this.config);
   }
 
   async initialize(): Promise<void> {
@@ -33,205 +70,369 @@ export class KodeIntegration extends EventEmitter {
     }
 
     try {
-      // Check if kode is installed
-      const kodeAvailable = await isCommandAvailable('kode');
-      if (!kodeAvailable) {
-        throw new Error('Kode is not installed or not in PATH. Please install Kode first.');
+      const backend = this.config.toolBackend || 'builtin';
+
+      if (backend !== 'builtin') {
+        // Check if kode is installed
+        const command = this.config.kodeCommand || 'kode';
+        const kodeAvailable = await isCommandAvailable(command);
+
+        if (!kodeAvailable) {
+          if (backend === 'kode') {
+            throw new Error('Kode is not installed or not in PATH. Please install Kode first.');
+          }
+          logger.warn(`${command} not found in PATH, using built-in tool implementations`);
+        } else {
+          try {
+            await this.startKodeProcess();
+          } catch (error) {
+            if (backend === 'kode') {
+              throw error;
+            }
+            logger.warn(`${error instanceof Error ? error.message : String(error)}, using built-in tool implementations`);
+          }
+        }
       }
 
       this.initialized = true;
-      log('info', 'Kode integration initialized');
+      logger.info(`Kode integration initialized (${this.kodeProcess ? 'kode subprocess' : 'built-in tools'})`);
     } catch (error) {
-      log('error', 'Failed to initialize Kode integration:', error);
+      logger.error('Failed to initialize Kode integration:', error);
       throw error;
     }
   }
 
-  async executeTool(toolCall: KodeToolCall): Promise<KodeToolResult> {
+  async executeTool(toolCall: KodeToolCall, context: ToolExecutionContext = {}): Promise<KodeToolResult> {
     if (!this.initialized) {
       await this.initialize();
     }
 
+    const { signal } = context;
+    if (signal?.aborted) {
+      throw new Error(`Tool execution cancelled: ${toolCall.name}`);
+    }
+
+    // Inputs that do not match the tool's schema never reach a backend
+    const problems = validateToolInput(toolCall.name, toolCall.input);
+    if (problems.length > 0) {
+      const message = `Invalid input for ${toolCall.name}:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`;
+      logger.with({ toolName: toolCall.name, sessionId: context.sessionId }).warn(message);
+      return {
+        type: 'tool_result',
+        content: message,
+        tool_use_id: toolCall.id || '',
+        is_error: true,
+      };
+    }
+
+    // Both backends get only paths inside the session's working directory or the allowlist
+    try {
+      createPathSandbox(this.config, context.workingDirectory).checkToolCall(toolCall);
+    } catch (error) {
+      if (error instanceof PathSandboxError) {
+        logger.with({ toolName: toolCall.name, sessionId: context.sessionId }).warn(error.message);
+        return {
+          type: 'tool_result',
+          content: error.message,
+          tool_use_id: toolCall.id || '',
+          is_error: true,
+        };
+      }
+      throw error;
+    }
+
     const requestId = `kode_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    // Built-in tools stop their work (and kill their commands) when this is aborted
+    const controller = new AbortController();
+    const toolContext: ToolExecutionContext = { ...context, signal: controller.signal };
+    const timeoutMs = toolTimeout(toolCall);
 
     return new Promise((resolve, reject) => {
-      this.pendingRequests.set(requestId, { resolve, reject });
-
-      // Set up timeout
       const timeout = setTimeout(() => {
-        this.pendingRequests.delete(requestId);
-        reject(new Error(`Tool execution timeout: ${toolCall.name}`));
-      }, 300000); // 5 minutes timeout
+        this.cancelKodeRequest(requestId);
+        controller.abort();
+        this.pendingRequests.get(requestId)?.reject(new Error(`Tool execution timeout: ${toolCall.name} (${timeoutMs}ms)`));
+      }, timeoutMs);
+
+      // Cancellation rejects the request right away; built-in tools also stop their own work
+      const onAbort = () => {
+        this.cancelKodeRequest(requestId);
+        controller.abort();
+        this.pendingRequests.get(requestId)?.reject(new Error(`Tool execution cancelled: ${toolCall.name}`));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
 
-      // Execute the tool using Kode's API
-      this.executeToolInternal(toolCall)
-        .then((result) => {
+      this.pendingRequests.set(requestId, {
+        resolve: (result: KodeToolResult) => {
           clearTimeout(timeout);
+          signal?.removeEventListener('abort', onAbort);
           this.pendingRequests.delete(requestId);
           resolve(result);
-        })
-        .catch((error) => {
+        },
+        reject: (error: Error) => {
           clearTimeout(timeout);
+          signal?.removeEventListener('abort', onAbort);
           this.pendingRequests.delete(requestId);
           reject(error);
-        });
+        },
+      });
+
+      const pending = this.pendingRequests.get(requestId)!;
+
+      // File tools stay local when the client serves files, so they see and update its buffers
+      const useClientFiles = Boolean(context.fileSystem) && CLIENT_FILE_SYSTEM_TOOLS.includes(toolCall.name);
+
+      if (this.kodeProcess && !useClientFiles) {
+        // Delegate to the Kode subprocess; its response settles the pending request
+        this.sendToKode(requestId, toolCall, pending, toolContext);
+      } else {
+        this.executeToolInternal(toolCall, toolContext).then(
+          (result) => pending.resolve(result),
+          (error) => pending.reject(error)
+        );
+      }
     });
   }
 
-  private async executeToolInternal(toolCall: KodeToolCall): Promise<KodeToolResult> {
-    const { name, input } = toolCall;
+  // Start the subprocess and route tools to it once it has answered the handshake. A process
+  // that does not is killed, so a `kode` binary that does not speak the protocol never gets tool calls.
+  private async startKodeProcess(): Promise<void> {
+    const command = this.config.kodeCommand || 'kode';
+    const args = this.config.kodeArgs || DEFAULT_KODE_ARGS;
 
-    log('debug', `Executing Kode tool: ${name}`, input);
+    const child = await spawnProcess(command, args, {
+      cwd: this.config.workingDirectory,
+    });
+    if (this.shuttingDown) {
+      child.kill();
+      throw new Error('Kode integration shutting down');
+    }
 
-    try {
-      // For now, we'll simulate tool execution
-      // In a real implementation, this would interface with Kode's internal API
-      const result = await this.simulateToolExecution(toolCall);
+    readProcessLines(child.stdout, (line) => this.handleKodeLine(line));
+    readProcessLines(child.stderr, (line) => logger.debug(`[kode] ${line}`));
 
-      log('debug', `Tool ${name} executed successfully`);
-      return result;
+    child.on('error', (error: Error) => {
+      if (this.handshake?.child === child) {
+        this.handshake.finish(error);
+        return;
+      }
+      logger.error('Kode process error:', error);
+    });
+    child.once('exit', (code: number | null, signal: string | null) => {
+      this.handleKodeExit(child, code, signal);
+    });
+
+    try {
+      await this.performHandshake(child);
     } catch (error) {
-      log('error', `Tool ${name} execution failed:`, error);
-      return {
+      child.kill();
+      throw new Error(`${command} ${args.join(' ')} did not complete the Kode tool protocol handshake: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    this.kodeProcess = child;
+
+    logger.info(`Started Kode subprocess (pid ${child.pid}): ${command} ${args.join(' ')}`);
+  }
+
+  private performHandshake(child: CrossPlatformProcess): Promise<void> {
+    const id = `kode_handshake_${Date.now()}`;
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        finish(new Error(`no response within ${HANDSHAKE_TIMEOUT_MS / 1000}s`));
+      }, HANDSHAKE_TIMEOUT_MS);
+
+      const finish = (error?: Error) => {
+        clearTimeout(timeout);
+        if (this.handshake?.id === id) {
+          this.handshake = null;
+        }
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+      this.handshake = { id, child, finish };
+
+      const request = JSON.stringify({
+        jsonrpc: '2.0',
+        id,
+        method: 'initialize',
+        params: { protocolVersion: KODE_PROTOCOL_VERSION },
+      });
+      child.write(request + '\n').catch((error: Error) => {
+        finish(new Error(`could not write to the process: ${error.message}`));
+      });
+    });
+  }
+
+  private sendToKode(requestId: string, toolCall: KodeToolCall, pending: PendingRequest, context: ToolExecutionContext): void {
+    this.kodeRequests.set(requestId, toolCall);
+
+    const line = JSON.stringify({
+      jsonrpc: '2.0',
+      id: requestId,
+      method: 'tool/execute',
+      params: {
+        name: toolCall.name,
+        input: toolCall.input,
+        tool_use_id: toolCall.id || '',
+        cwd: context.workingDirectory || this.config.workingDirectory,
+      },
+    });
+
+    if (!this.kodeProcess) {
+      this.kodeRequests.delete(requestId);
+      pending.reject(new Error('Kode process is not accepting requests'));
+      return;
+    }
+    // A large request waits for the pipe to drain; only a closed or broken pipe fails it
+    this.kodeProcess.write(line + '\n').catch((error: Error) => {
+      if (this.kodeRequests.delete(requestId)) {
+        pending.reject(new Error(`Kode process is not accepting requests: ${error.message}`));
+      }
+    });
+  }
+
+  // Tell the Kode subprocess to stop working on a request we no longer wait for
+  private cancelKodeRequest(requestId: string): void {
+    if (!this.kodeRequests.delete(requestId) || !this.kodeProcess) {
+      return;
+    }
+
+    this.kodeProcess.write(JSON.stringify({
+      jsonrpc: '2.0',
+      method: 'tool/cancel',
+      params: { id: requestId },
+    }) + '\n').catch(() => {});
+  }
+
+  private handleKodeLine(line: string): void {
+    if (!line.trim()) {
+      return;
+    }
+
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      logger.debug(`[kode] ${line}`);
+      return;
+    }
+
+    if (this.handshake && message.id === this.handshake.id) {
+      const version = message.result?.protocolVersion;
+      this.handshake.finish(
+        message.error ? new Error(message.error.message || JSON.stringify(message.error))
+          : version !== KODE_PROTOCOL_VERSION ? new Error(`unsupported protocol version ${JSON.stringify(version)}`)
+          : undefined
+      );
+      return;
+    }
+
+    const pending = this.pendingRequests.get(message.id);
+    const toolCall = this.kodeRequests.get(message.id);
+    if (!pending || !toolCall) {
+      logger.warn(`Received Kode response for unknown request: ${message.id}`);
+      return;
+    }
+    this.kodeRequests.delete(message.id);
+
+    if (message.error) {
+      pending.resolve({
         type: 'tool_result',
-        content: `Error executing ${name}: ${error instanceof Error ? error.message : String(error)}`,
+        content: `Error executing ${toolCall.name}: ${message.error.message || JSON.stringify(message.error)}`,
         tool_use_id: toolCall.id || '',
         is_error: true,
-      };
+      });
+      return;
     }
-  }
 
-  private async simulateToolExecution(toolCall: KodeToolCall): Promise<KodeToolResult> {
-    // This is a temporary simulation until we can properly integrate with Kode's API
-    // In the real implementation, this would call Kode's actual tool execution system
+    const result = message.result || {};
+    pending.resolve({
+      type: 'tool_result',
+      content: result.content ?? '',
+      tool_use_id: toolCall.id || '',
+      is_error: Boolean(result.is_error),
+    });
+  }
 
-    const { name, input } = toolCall;
+  private handleKodeExit(child: CrossPlatformProcess, code: number | null, signal: string | null): void {
+    // A process that never completed the handshake is not restarted
+    if (this.handshake?.child === child) {
+      this.handshake.finish(new Error(`exited (code ${code}, signal ${signal})`));
+      return;
+    }
+    if (this.kodeProcess !== child) {
+      return;
+    }
+    this.kodeProcess = null;
 
-    switch (name) {
-      case 'FileRead':
-        try {
-          const fs = await import('fs');
-          const path = input.file_path || input.abs_path;
-          const content = fs.readFileSync(path, 'utf8');
-          return {
-            type: 'tool_result',
-            content: [{ type: 'text', text: content }],
-            tool_use_id: toolCall.id || '',
-            is_error: false,
-          };
-        } catch (error) {
-          return {
-            type: 'tool_result',
-            content: `File not found: ${input.file_path}`,
-            tool_use_id: toolCall.id || '',
-            is_error: true,
-          };
-        }
+    // Requests in flight died with the process
+    for (const requestId of this.kodeRequests.keys()) {
+      this.pendingRequests.get(requestId)?.reject(new Error(`Kode process exited (code ${code}, signal ${signal})`));
+    }
+    this.kodeRequests.clear();
 
-      case 'FileWrite':
-        try {
-          const fs = await import('fs');
-          const path = input.abs_path || input.file_path;
-          const dir = path.split('/').slice(0, -1).join('/');
+    if (this.shuttingDown) {
+      return;
+    }
 
-          if (dir) {
-            fs.mkdirSync(dir, { recursive: true });
-          }
+    const now = Date.now();
+    this.restartTimes = this.restartTimes.filter(time => now - time < RESTART_WINDOW_MS);
+    if (this.restartTimes.length >= MAX_RESTARTS) {
+      logger.error(`Kode process crashed ${MAX_RESTARTS} times within ${RESTART_WINDOW_MS / 1000}s, falling back to built-in tools`);
+      return;
+    }
+    this.restartTimes.push(now);
 
-          fs.writeFileSync(path, input.content);
-          return {
-            type: 'tool_result',
-            content: `File written successfully: ${path}`,
-            tool_use_id: toolCall.id || '',
-            is_error: false,
-          };
-        } catch (error) {
-          return {
-            type: 'tool_result',
-            content: `Failed to write file: ${error instanceof Error ? error.message : String(error)}`,
-            tool_use_id: toolCall.id || '',
-            is_error: true,
-          };
+    logger.warn(`Kode process exited unexpectedly (code ${code}, signal ${signal}), restarting`);
+    this.restarting = this.startKodeProcess()
+      .catch((error) => {
+        if (!this.shuttingDown) {
+          logger.error('Failed to restart Kode process, falling back to built-in tools:', error);
         }
+      })
+      .finally(() => {
+        this.restarting = null;
+      });
+  }
 
-      case 'Bash':
-        try {
-          const result = await executeCommand(input.command, {
-            cwd: this.config.workingDirectory,
-            shell: true,
-          });
-
-          if (result.exitCode === 0) {
-            return {
-              type: 'tool_result',
-              content: result.stdout || result.stderr,
-              tool_use_id: toolCall.id || '',
-              is_error: false,
-            };
-          } else {
-            return {
-              type: 'tool_result',
-              content: `Command failed with exit code ${result.exitCode}: ${result.stderr}`,
-              tool_use_id: toolCall.id || '',
-              is_error: true,
-            };
-          }
-        } catch (error) {
-          return {
-            type: 'tool_result',
-            content: `Command execution failed: ${error instanceof Error ? error.message : String(error)}`,
-            tool_use_id: toolCall.id || '',
-            is_error: true,
-          };
-        }
+  private async executeToolInternal(toolCall: KodeToolCall, context: ToolExecutionContext): Promise<KodeToolResult> {
+    const { name, input } = toolCall;
+    const toolLogger = logger.with({ toolName: name, sessionId: context.sessionId });
 
-      case 'Glob':
-        try {
-          const { glob } = await import('glob');
-          const pattern = input.pattern;
-          const cwd = input.path || this.config.workingDirectory;
-
-          const files = await glob(pattern, { cwd });
-          return {
-            type: 'tool_result',
-            content: files.join('\n'),
-            tool_use_id: toolCall.id || '',
-            is_error: false,
-          };
-        } catch (error) {
-          return {
-            type: 'tool_result',
-            content: `Glob failed: ${error instanceof Error ? error.message : String(error)}`,
-            tool_use_id: toolCall.id || '',
-            is_error: true,
-          };
-        }
+    toolLogger.debug(`Executing Kode tool: ${name}`, input);
 
-      case 'Task':
-        return {
-          type: 'tool_result',
-          content: `Task created: ${input.description || 'Unnamed task'}`,
-          tool_use_id: toolCall.id || '',
-          is_error: false,
-        };
+    try {
+      const result = await this.builtinTools.execute(toolCall, context);
 
-      default:
-        return {
-          type: 'tool_result',
-          content: `Tool ${name} not yet implemented in Kode ACP adapter`,
-          tool_use_id: toolCall.id || '',
-          is_error: true,
-        };
+      toolLogger.debug(`Tool ${name} executed successfully`);
+      return result;
+    } catch (error) {
+      toolLogger.error(`Tool ${name} execution failed:`, error);
+      return {
+        type: 'tool_result',
+        content: `Error executing ${name}: ${error instanceof Error ? error.message : String(error)}`,
+        tool_use_id: toolCall.id || '',
+        is_error: true,
+      };
     }
   }
 
+  // Tools that run with the current backend; without the Kode subprocess only the built-in ones
   async getAvailableTools(): Promise<string[]> {
+    if (!this.kodeProcess) {
+      return [...BUILTIN_TOOLS];
+    }
     return [
       'FileRead',
       'FileWrite',
       'FileEdit',
       'MultiEdit',
       'Bash',
+      'BashOutput',
+      'KillShell',
       'Glob',
       'Grep',
       'Task',
@@ -248,11 +449,28 @@ export class KodeIntegration extends EventEmitter {
     ];
   }
 
+  // Drop the state built-in tools keep for a session
+  releaseSession(sessionId: string): void {
+    this.builtinTools.releaseSession(sessionId);
+  }
+
+  // Tool definitions (name, description, input schema) to advertise to models
+  async getToolDefinitions(): Promise<ModelToolDefinition[]> {
+    const tools = await this.getAvailableTools();
+    return tools
+      .map(name => getToolDefinition(name))
+      .filter((definition): definition is ModelToolDefinition => definition !== undefined);
+  }
+
   async cleanup(): Promise<void> {
+    this.shuttingDown = true;
+    this.handshake?.finish(new Error('Kode integration shutting down'));
+    await this.restarting;
     if (this.kodeProcess) {
       this.kodeProcess.kill();
       this.kodeProcess = null;
     }
+    this.kodeRequests.clear();
 
     // Clean up all processes managed by the process manager
     await this.processManager.killAllProcesses();
@@ -264,6 +482,14 @@ export class KodeIntegration extends EventEmitter {
     }
 
     this.initialized = false;
-    log('info', 'Kode integration cleaned up');
+    this.shuttingDown = false;
+    logger.info('Kode integration cleaned up');
   }
-}
\ No newline at end of file
+}
+
+function toolTimeout(toolCall: KodeToolCall): number {
+  const own = toolCall.input?.timeout;
+  return typeof own === 'number' && own > 0
+    ? Math.max(DEFAULT_TOOL_TIMEOUT_MS, own + TOOL_TIMEOUT_GRACE_MS)
+    : DEFAULT_TOOL_TIMEOUT_MS;
+}
@@ -0,0 +1,209 @@
+// Leveled logging to stderr and an optional size-rotated file, as text or JSON lines
+// Fields (session id, tool name, request id) come from the logger itself and from the
+// ambient context set with withLogContext, so nested calls are tagged without threading them
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { format } from 'node:util';
+import type { KodeACPConfig } from './types.ts';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'text' | 'json';
+
+export interface LogFields {
+  component?: string;
+  sessionId?: string;
+  toolName?: string;
+  // JSON-RPC request id
+  requestId?: string | number;
+  // Per HTTP request, from X-Request-Id or generated
+  httpRequestId?: string;
+  [key: string]: unknown;
+}
+
+export interface LoggingOptions {
+  level?: LogLevel;
+  format?: LogFormat;
+  // Also append log lines to this file
+  file?: string;
+  // Rotate the file when it would grow beyond this many bytes
+  maxFileSize?: number;
+  // Rotated files kept next to the log file (file.1 is the newest)
+  maxFiles?: number;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
+const DEFAULT_MAX_FILES = 5;
+
+// Short names used in text output
+const TEXT_FIELD_NAMES: Record<string, string> = {
+  sessionId: 'session',
+  toolName: 'tool',
+  requestId: 'req',
+  httpRequestId: 'http',
+};
+
+let settings: Required<Omit<LoggingOptions, 'file'>> & { file?: string } = {
+  level: 'info',
+  format: 'text',
+  maxFileSize: DEFAULT_MAX_FILE_SIZE,
+  maxFiles: DEFAULT_MAX_FILES,
+};
+let fileSize = 0;
+const context = new AsyncLocalStorage<LogFields>();
+
+export function configureLogging(options: LoggingOptions): void {
+  settings = {
+    ...settings,
+    ...Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)),
+  };
+
+  if (settings.file) {
+    mkdirSync(dirname(settings.file), { recursive: true });
+    fileSize = existsSync(settings.file) ? statSync(settings.file).size : 0;
+  }
+}
+
+export function loggingOptionsFromConfig(config: KodeACPConfig): LoggingOptions {
+  return {
+    level: config.logLevel,
+    format: config.logFormat,
+    file: config.logFile,
+    maxFileSize: config.logMaxSize,
+    maxFiles: config.logMaxFiles,
+  };
+}
+
+export function getLogLevel(): LogLevel {
+  return settings.level;
+}
+
+export function isLogLevelEnabled(level: LogLevel): boolean {
+  return LEVELS[level] >= LEVELS[settings.level];
+}
+
+// Run fn with fields added to every log line written inside it, including async continuations
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...definedFields(fields) }, fn);
+}
+
+export class Logger {
+  constructor(private fields: LogFields = {}) {}
+
+  with(fields: LogFields): Logger {
+    return new Logger({ ...this.fields, ...definedFields(fields) });
+  }
+
+  debug(message: string, ...args: any[]): void {
+    this.log('debug', message, ...args);
+  }
+
+  info(message: string, ...args: any[]): void {
+    this.log('info', message, ...args);
+  }
+
+  warn(message: string, ...args: any[]): void {
+    this.log('warn', message, ...args);
+  }
+
+  error(message: string, ...args: any[]): void {
+    this.log('error', message, ...args);
+  }
+
+  log(level: LogLevel, message: string, ...args: any[]): void {
+    if (!isLogLevelEnabled(level)) {
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+    const fields = { ...context.getStore(), ...this.fields };
+
+    if (settings.format === 'json') {
+      const line = JSON.stringify({
+        timestamp,
+        level,
+        message,
+        ...fields,
+        ...(args.length > 0 ? { args: args.map(toJsonValue) } : {}),
+      });
+      console.error(line);
+      writeToFile(line);
+      return;
+    }
+
+    const tags = Object.entries(fields)
+      .filter(([name]) => name !== 'component')
+      .map(([name, value]) => `${TEXT_FIELD_NAMES[name] || name}=${value}`)
+      .join(' ');
+    const component = fields.component ? ` [${fields.component}]` : '';
+    const prefix = `[${timestamp}] [${level.toUpperCase()}]${component}${tags ? ` [${tags}]` : ''} ${message}`;
+
+    console.error(prefix, ...args);
+    if (settings.file) {
+      writeToFile(format(prefix, ...args));
+    }
+  }
+}
+
+export function createLogger(component?: string): Logger {
+  return new Logger(component ? { component } : {});
+}
+
+export const rootLogger: Logger = new Logger();
+
+function writeToFile(line: string): void {
+  const file = settings.file;
+  if (!file) {
+    return;
+  }
+
+  const data = line + '\n';
+  const size = new TextEncoder().encode(data).length;
+  try {
+    if (fileSize > 0 && fileSize + size > settings.maxFileSize) {
+      rotate(file);
+    }
+    appendFileSync(file, data);
+    fileSize += size;
+  } catch (error) {
+    // Never let a broken log file take the agent down; report once on stderr and stop writing
+    settings.file = undefined;
+    console.error(`Failed to write log file ${file}, file logging disabled:`, error);
+  }
+}
+
+function rotate(file: string): void {
+  rmSync(`${file}.${settings.maxFiles}`, { force: true });
+  for (let index = settings.maxFiles - 1; index >= 1; index--) {
+    if (existsSync(`${file}.${index}`)) {
+      renameSync(`${file}.${index}`, `${file}.${index + 1}`);
+    }
+  }
+  if (settings.maxFiles > 0) {
+    renameSync(file, `${file}.1`);
+  } else {
+    rmSync(file, { force: true });
+  }
+  fileSize = 0;
+}
+
+function definedFields(fields: LogFields): LogFields {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined && value !== null));
+}
+
+function toJsonValue(value: any): any {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  try {
+    JSON.stringify(value);
+    return value;
+  } catch {
+    return format('%o', value);
+  }
+}
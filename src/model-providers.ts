@@ -0,0 +1,691 @@
+// Model provider adapters for MultiModelManager
+// Each adapter talks to one wire format (Anthropic Messages, OpenAI Chat Completions, Gemini)
+// over fetch, so a local HTTP stand-in can replace the real endpoint via `baseUrl`
+
+import type { ModelProfile } from './multi-model.ts';
+import { getEnv, log } from './utils.ts';
+
+export type ModelContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; thinking: string }
+  | { type: 'tool_use'; id: string; name: string; input: any }
+  | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean };
+
+// A tool advertised to the model, described by a JSON Schema for its input
+export interface ModelToolDefinition {
+  name: string;
+  description: string;
+  input_schema: Record<string, any>;
+}
+
+export interface ModelMessage {
+  role: 'user' | 'assistant';
+  content: string | ModelContentBlock[];
+}
+
+export interface ModelRequest {
+  messages: ModelMessage[];
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+  tools?: ModelToolDefinition[];
+  signal?: AbortSignal;
+  onText?: (chunk: string) => void;
+  onThinking?: (chunk: string) => void;
+}
+
+export interface ModelResponse {
+  content: ModelContentBlock[];
+  stopReason: 'end_turn' | 'tool_use' | 'max_tokens' | 'stop_sequence' | 'refusal';
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+export interface ModelProvider {
+  readonly name: string;
+  createMessage(profile: ModelProfile, request: ModelRequest): Promise<ModelResponse>;
+}
+
+export class ModelProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public status?: number,
+    public body?: string
+  ) {
+    super(message);
+    this.name = 'ModelProviderError';
+  }
+}
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+// Anthropic Messages API
+export class AnthropicProvider implements ModelProvider {
+  readonly name = 'anthropic';
+
+  async createMessage(profile: ModelProfile, request: ModelRequest): Promise<ModelResponse> {
+    const baseUrl = trimSlash(profile.baseUrl || 'https://api.anthropic.com');
+    const apiKey = resolveApiKey(this.name, profile, ['ANTHROPIC_API_KEY']);
+
+    const body: Record<string, any> = {
+      model: profile.model,
+      max_tokens: request.maxTokens ?? profile.maxTokens ?? DEFAULT_MAX_TOKENS,
+      messages: request.messages.map(message => ({
+        role: message.role,
+        content: typeof message.content === 'string'
+          ? message.content
+          : message.content.filter(block => block.type !== 'thinking'),
+      })),
+      stream: true,
+    };
+    if (request.systemPrompt) {
+      body.system = request.systemPrompt;
+    }
+    if (request.tools?.length) {
+      body.tools = request.tools;
+    }
+    const temperature = request.temperature ?? profile.temperature;
+    if (temperature !== undefined) {
+      body.temperature = temperature;
+    }
+
+    const response = await postJson(this.name, `${baseUrl}/v1/messages`, body, {
+      ...(apiKey ? { 'x-api-key': apiKey } : {}),
+      'anthropic-version': '2023-06-01',
+    }, request.signal);
+
+    if (!isEventStream(response)) {
+      return this.parseMessage(await response.json(), request);
+    }
+
+    const builder = new ResponseBuilder(request);
+    let stopReason: string | undefined;
+    let usage = { inputTokens: 0, outputTokens: 0 };
+    // Tool input arrives as partial JSON, keyed by content block index
+    const toolBlocks: Map<number, { id: string; name: string; json: string }> = new Map();
+
+    for await (const event of readSseEvents(response)) {
+      const data = parseEventData(this.name, event.data);
+      if (!data) continue;
+
+      switch (data.type) {
+        case 'message_start':
+          usage.inputTokens = data.message?.usage?.input_tokens ?? 0;
+          break;
+        case 'content_block_start':
+          if (data.content_block?.type === 'tool_use') {
+            toolBlocks.set(data.index, { id: data.content_block.id, name: data.content_block.name, json: '' });
+          }
+          break;
+        case 'content_block_delta':
+          if (data.delta?.type === 'text_delta') {
+            builder.addText(data.delta.text);
+          } else if (data.delta?.type === 'thinking_delta') {
+            builder.addThinking(data.delta.thinking);
+          } else if (data.delta?.type === 'input_json_delta' && toolBlocks.has(data.index)) {
+            toolBlocks.get(data.index)!.json += data.delta.partial_json;
+          }
+          break;
+        case 'content_block_stop':
+          if (toolBlocks.has(data.index)) {
+            const tool = toolBlocks.get(data.index)!;
+            toolBlocks.delete(data.index);
+            builder.addToolUse(tool.id, tool.name, parseToolArguments(this.name, tool.json));
+          }
+          break;
+        case 'message_delta':
+          stopReason = data.delta?.stop_reason ?? stopReason;
+          usage.outputTokens = data.usage?.output_tokens ?? usage.outputTokens;
+          break;
+        case 'error':
+          throw new ModelProviderError(
+            `${this.name} stream error: ${data.error?.message || event.data}`,
+            this.name,
+            undefined,
+            event.data
+          );
+      }
+    }
+
+    return builder.build(mapStopReason(stopReason), usage);
+  }
+
+  private parseMessage(data: any, request: ModelRequest): ModelResponse {
+    const builder = new ResponseBuilder(request);
+    for (const block of data.content || []) {
+      if (block.type === 'text') {
+        builder.addText(block.text);
+      } else if (block.type === 'thinking') {
+        builder.addThinking(block.thinking);
+      } else if (block.type === 'tool_use') {
+        builder.addToolUse(block.id, block.name, block.input ?? {});
+      }
+    }
+    return builder.build(mapStopReason(data.stop_reason), {
+      inputTokens: data.usage?.input_tokens ?? 0,
+      outputTokens: data.usage?.output_tokens ?? 0,
+    });
+  }
+}
+
+// OpenAI Chat Completions API, also used for OpenAI-compatible endpoints
+// (Qwen/DashScope, local servers such as Ollama, LM Studio or vLLM)
+export class OpenAIProvider implements ModelProvider {
+  constructor(
+    readonly name: string = 'openai',
+    private defaultBaseUrl: string = 'https://api.openai.com/v1',
+    private apiKeyEnv: string[] = ['OPENAI_API_KEY']
+  ) {}
+
+  async createMessage(profile: ModelProfile, request: ModelRequest): Promise<ModelResponse> {
+    const baseUrl = trimSlash(profile.baseUrl || this.defaultBaseUrl);
+    // Custom endpoints (local servers) commonly run without authentication
+    const apiKey = resolveApiKey(this.name, profile, this.apiKeyEnv, Boolean(profile.baseUrl));
+
+    const messages: any[] = [];
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+    for (const message of request.messages) {
+      messages.push(...toOpenAIMessages(message));
+    }
+
+    const body: Record<string, any> = {
+      model: profile.model,
+      messages,
+      max_tokens: request.maxTokens ?? profile.maxTokens ?? DEFAULT_MAX_TOKENS,
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+    const temperature = request.temperature ?? profile.temperature;
+    if (temperature !== undefined) {
+      body.temperature = temperature;
+    }
+    if (request.tools?.length) {
+      body.tools = request.tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+      }));
+    }
+
+    const response = await postJson(this.name, `${baseUrl}/chat/completions`, body, {
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    }, request.signal);
+
+    if (!isEventStream(response)) {
+      const data = await response.json();
+      const choice = data.choices?.[0];
+      const builder = new ResponseBuilder(request);
+      if (choice?.message?.reasoning_content) {
+        builder.addThinking(choice.message.reasoning_content);
+      }
+      if (choice?.message?.content) {
+        builder.addText(choice.message.content);
+      }
+      for (const toolCall of choice?.message?.tool_calls || []) {
+        builder.addToolUse(
+          toolCall.id || generateToolUseId(),
+          toolCall.function?.name,
+          parseToolArguments(this.name, toolCall.function?.arguments)
+        );
+      }
+      return builder.build(mapStopReason(choice?.finish_reason), {
+        inputTokens: data.usage?.prompt_tokens ?? 0,
+        outputTokens: data.usage?.completion_tokens ?? 0,
+      });
+    }
+
+    const builder = new ResponseBuilder(request);
+    let finishReason: string | undefined;
+    let usage = { inputTokens: 0, outputTokens: 0 };
+    // Tool call names and arguments are streamed in fragments, keyed by index
+    const toolCalls: Map<number, { id: string; name: string; args: string }> = new Map();
+
+    for await (const event of readSseEvents(response)) {
+      if (event.data === '[DONE]') break;
+      const data = parseEventData(this.name, event.data);
+      if (!data) continue;
+
+      if (data.error) {
+        throw new ModelProviderError(
+          `${this.name} stream error: ${data.error.message || event.data}`,
+          this.name,
+          undefined,
+          event.data
+        );
+      }
+
+      const choice = data.choices?.[0];
+      if (choice?.delta?.reasoning_content) {
+        builder.addThinking(choice.delta.reasoning_content);
+      }
+      if (choice?.delta?.content) {
+        builder.addText(choice.delta.content);
+      }
+      for (const fragment of choice?.delta?.tool_calls || []) {
+        const index = fragment.index ?? 0;
+        const toolCall = toolCalls.get(index) || { id: '', name: '', args: '' };
+        toolCall.id = fragment.id || toolCall.id;
+        toolCall.name += fragment.function?.name || '';
+        toolCall.args += fragment.function?.arguments || '';
+        toolCalls.set(index, toolCall);
+      }
+      finishReason = choice?.finish_reason ?? finishReason;
+      if (data.usage) {
+        usage = {
+          inputTokens: data.usage.prompt_tokens ?? 0,
+          outputTokens: data.usage.completion_tokens ?? 0,
+        };
+      }
+    }
+
+    for (const [, toolCall] of Array.from(toolCalls.entries()).sort(([a], [b]) => a - b)) {
+      builder.addToolUse(toolCall.id || generateToolUseId(), toolCall.name, parseToolArguments(this.name, toolCall.args));
+    }
+
+    return builder.build(mapStopReason(finishReason), usage);
+  }
+}
+
+// Google Gemini generateContent API
+export class GoogleProvider implements ModelProvider {
+  readonly name = 'google';
+
+  async createMessage(profile: ModelProfile, request: ModelRequest): Promise<ModelResponse> {
+    const baseUrl = trimSlash(profile.baseUrl || 'https://generativelanguage.googleapis.com/v1beta');
+    const apiKey = resolveApiKey(this.name, profile, ['GOOGLE_API_KEY', 'GEMINI_API_KEY']);
+
+    // Gemini matches function responses by name rather than id
+    const toolNames: Map<string, string> = new Map();
+    const body: Record<string, any> = {
+      contents: request.messages.map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: toGeminiParts(message, toolNames),
+      })),
+      generationConfig: {
+        maxOutputTokens: request.maxTokens ?? profile.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature ?? profile.temperature,
+      },
+    };
+    if (request.systemPrompt) {
+      body.systemInstruction = { parts: [{ text: request.systemPrompt }] };
+    }
+    if (request.tools?.length) {
+      body.tools = [{
+        functionDeclarations: request.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: toGeminiSchema(tool.input_schema),
+        })),
+      }];
+    }
+
+    const url = `${baseUrl}/models/${encodeURIComponent(profile.model)}:streamGenerateContent?alt=sse`;
+    const response = await postJson(this.name, url, body, {
+      ...(apiKey ? { 'x-goog-api-key': apiKey } : {}),
+    }, request.signal);
+
+    const builder = new ResponseBuilder(request);
+    let finishReason: string | undefined;
+    let usage = { inputTokens: 0, outputTokens: 0 };
+
+    const handleChunk = (data: any) => {
+      if (data.error) {
+        throw new ModelProviderError(
+          `${this.name} stream error: ${data.error.message || JSON.stringify(data.error)}`,
+          this.name
+        );
+      }
+
+      const candidate = data.candidates?.[0];
+      for (const part of candidate?.content?.parts || []) {
+        if (part.functionCall) {
+          builder.addToolUse(generateToolUseId(), part.functionCall.name, part.functionCall.args ?? {});
+          continue;
+        }
+        if (typeof part.text !== 'string') continue;
+        if (part.thought) {
+          builder.addThinking(part.text);
+        } else {
+          builder.addText(part.text);
+        }
+      }
+      finishReason = candidate?.finishReason ?? finishReason;
+      if (data.usageMetadata) {
+        usage = {
+          inputTokens: data.usageMetadata.promptTokenCount ?? 0,
+          outputTokens: data.usageMetadata.candidatesTokenCount ?? 0,
+        };
+      }
+    };
+
+    if (isEventStream(response)) {
+      for await (const event of readSseEvents(response)) {
+        const data = parseEventData(this.name, event.data);
+        if (data) handleChunk(data);
+      }
+    } else {
+      // Non-SSE servers answer with a JSON array of chunks (or a single chunk)
+      const data = await response.json();
+      for (const chunk of Array.isArray(data) ? data : [data]) {
+        handleChunk(chunk);
+      }
+    }
+
+    return builder.build(mapStopReason(finishReason), usage);
+  }
+}
+
+// Default provider registry, keyed by ModelProfile.provider
+export function createDefaultProviders(): Map<string, ModelProvider> {
+  const providers: ModelProvider[] = [
+    new AnthropicProvider(),
+    new OpenAIProvider(),
+    new GoogleProvider(),
+    new OpenAIProvider('alibaba', 'https://dashscope.aliyuncs.com/compatible-mode/v1', ['DASHSCOPE_API_KEY']),
+    new OpenAIProvider('openai-compatible', 'http://localhost:8000/v1', ['OPENAI_API_KEY']),
+  ];
+
+  return new Map(providers.map(provider => [provider.name, provider]));
+}
+
+// Accumulates streamed deltas into content blocks while forwarding them to callbacks
+class ResponseBuilder {
+  private blocks: ModelContentBlock[] = [];
+
+  constructor(private request: ModelRequest) {}
+
+  addText(text: string): void {
+    if (!text) return;
+    const last = this.blocks[this.blocks.length - 1];
+    if (last?.type === 'text') {
+      last.text += text;
+    } else {
+      this.blocks.push({ type: 'text', text });
+    }
+    this.request.onText?.(text);
+  }
+
+  addThinking(thinking: string): void {
+    if (!thinking) return;
+    const last = this.blocks[this.blocks.length - 1];
+    if (last?.type === 'thinking') {
+      last.thinking += thinking;
+    } else {
+      this.blocks.push({ type: 'thinking', thinking });
+    }
+    this.request.onThinking?.(thinking);
+  }
+
+  addToolUse(id: string, name: string, input: any): void {
+    this.blocks.push({ type: 'tool_use', id, name, input });
+  }
+
+  build(stopReason: ModelResponse['stopReason'], usage?: ModelResponse['usage']): ModelResponse {
+    // Providers differ in how they flag tool calls; the presence of tool_use blocks is authoritative
+    const hasToolUse = this.blocks.some(block => block.type === 'tool_use');
+    return { content: this.blocks, stopReason: hasToolUse ? 'tool_use' : stopReason, usage };
+  }
+}
+
+function resolveApiKey(
+  provider: string,
+  profile: ModelProfile,
+  envNames: string[],
+  optional: boolean = false
+): string | undefined {
+  if (profile.apiKey) {
+    return profile.apiKey;
+  }
+
+  for (const name of envNames) {
+    const value = getEnv(name);
+    if (value) {
+      return value;
+    }
+  }
+
+  if (optional || profile.baseUrl) {
+    return undefined;
+  }
+
+  throw new ModelProviderError(
+    `No API key configured for ${provider} model ${profile.name}. Set apiKey on the model profile or ${envNames.join(' / ')}.`,
+    provider
+  );
+}
+
+async function postJson(
+  provider: string,
+  url: string,
+  body: any,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<Response> {
+  log('debug', `POST ${url} (${provider})`);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream, application/json',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    throw new ModelProviderError(
+      `${provider} request failed: ${error instanceof Error ? error.message : String(error)}`,
+      provider
+    );
+  }
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    let message = text || response.statusText;
+    try {
+      const data = JSON.parse(text);
+      const error = Array.isArray(data) ? data[0]?.error : data.error;
+      message = error?.message || (typeof error === 'string' ? error : message);
+    } catch {
+      // Keep the raw body as the message
+    }
+    throw new ModelProviderError(`${provider} API error (${response.status}): ${message}`, provider, response.status, text);
+  }
+
+  return response;
+}
+
+function isEventStream(response: Response): boolean {
+  return (response.headers.get('content-type') || '').includes('text/event-stream');
+}
+
+async function* readSseEvents(response: Response): AsyncIterable<{ event?: string; data: string }> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop() || '';
+
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length > 0) {
+            yield { event, data: data.join('\n') };
+          }
+          event = undefined;
+          data = [];
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+
+      if (done) {
+        if (data.length > 0) {
+          yield { event, data: data.join('\n') };
+        }
+        break;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEventData(provider: string, data: string): any {
+  try {
+    return JSON.parse(data);
+  } catch {
+    log('warn', `Ignoring malformed ${provider} stream event:`, data);
+    return null;
+  }
+}
+
+function mapStopReason(reason: string | undefined | null): ModelResponse['stopReason'] {
+  switch (reason) {
+    case 'tool_use':
+    case 'tool_calls':
+      return 'tool_use';
+    case 'max_tokens':
+    case 'length':
+    case 'MAX_TOKENS':
+      return 'max_tokens';
+    case 'stop_sequence':
+      return 'stop_sequence';
+    case 'refusal':
+    case 'content_filter':
+    case 'SAFETY':
+    case 'RECITATION':
+      return 'refusal';
+    default:
+      return 'end_turn';
+  }
+}
+
+function contentToText(content: ModelMessage['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .filter((block): block is { type: 'text'; text: string } => block.type === 'text')
+    .map(block => block.text)
+    .join('');
+}
+
+function toOpenAIMessages(message: ModelMessage): any[] {
+  if (typeof message.content === 'string') {
+    return [{ role: message.role, content: message.content }];
+  }
+
+  if (message.role === 'assistant') {
+    const toolCalls = message.content
+      .filter((block): block is Extract<ModelContentBlock, { type: 'tool_use' }> => block.type === 'tool_use')
+      .map(block => ({
+        id: block.id,
+        type: 'function',
+        function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+      }));
+    const text = contentToText(message.content);
+
+    return [{
+      role: 'assistant',
+      content: text || null,
+      ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+    }];
+  }
+
+  // Tool results become one `tool` message each, followed by any remaining user text
+  const messages: any[] = message.content
+    .filter((block): block is Extract<ModelContentBlock, { type: 'tool_result' }> => block.type === 'tool_result')
+    .map(block => ({ role: 'tool', tool_call_id: block.tool_use_id, content: block.content }));
+  const text = contentToText(message.content);
+  if (text) {
+    messages.push({ role: 'user', content: text });
+  }
+  return messages;
+}
+
+function toGeminiParts(message: ModelMessage, toolNames: Map<string, string>): any[] {
+  if (typeof message.content === 'string') {
+    return [{ text: message.content }];
+  }
+
+  const parts: any[] = [];
+  for (const block of message.content) {
+    if (block.type === 'text') {
+      parts.push({ text: block.text });
+    } else if (block.type === 'tool_use') {
+      toolNames.set(block.id, block.name);
+      parts.push({ functionCall: { name: block.name, args: block.input ?? {} } });
+    } else if (block.type === 'tool_result') {
+      parts.push({
+        functionResponse: {
+          name: toolNames.get(block.tool_use_id) || block.tool_use_id,
+          response: { content: block.content, is_error: block.is_error || false },
+        },
+      });
+    }
+  }
+  return parts;
+}
+
+// Gemini accepts an OpenAPI subset of JSON Schema; drop keywords it rejects
+function toGeminiSchema(schema: any): any {
+  if (Array.isArray(schema)) {
+    return schema.map(toGeminiSchema);
+  }
+  if (typeof schema !== 'object' || schema === null) {
+    return schema;
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === '$schema' || key === 'additionalProperties' || key === 'default') continue;
+    result[key] = key === 'properties'
+      ? Object.fromEntries(Object.entries(value as object).map(([name, prop]) => [name, toGeminiSchema(prop)]))
+      : toGeminiSchema(value);
+  }
+  return result;
+}
+
+function parseToolArguments(provider: string, json: string | undefined): any {
+  if (!json) {
+    return {};
+  }
+  try {
+    return JSON.parse(json);
+  } catch {
+    log('warn', `Malformed ${provider} tool arguments:`, json);
+    return {};
+  }
+}
+
+function generateToolUseId(): string {
+  return `toolu_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
\ No newline at end of file
@@ -1,8 +1,19 @@
 import { KodeACPConfig } from './types.ts';
-import { log } from './utils.ts';
+import { createLogger } from './logger.ts';
+import {
+  ModelMessage,
+  ModelProvider,
+  ModelProviderError,
+  ModelResponse,
+  ModelToolDefinition,
+  createDefaultProviders,
+} from './model-providers.ts';
+
+const logger = createLogger('models');
 
 export interface ModelProfile {
   name: string;
+  // Key into the provider registry: anthropic | openai | google | alibaba | openai-compatible
   provider: string;
   model: string;
   apiKey?: string;
@@ -17,6 +28,17 @@ export interface ModelProfile {
   };
 }
 
+export interface ModelCallOptions {
+  temperature?: number;
+  maxTokens?: number;
+  systemPrompt?: string;
+  tools?: ModelToolDefinition[];
+  signal?: AbortSignal;
+  // Streaming callbacks, invoked with incremental output as it arrives
+  onText?: (chunk: string) => void;
+  onThinking?: (chunk: string) => void;
+}
+
 export interface ModelPointers {
   main: string;        // Default model for main conversation
   task: string;        // Default model for sub-agents
@@ -24,80 +46,90 @@ export interface ModelPointers {
   quick: string;       // Default model for quick tasks
 }
 
+// Built-in profiles, available unless overridden by configuration
+export const DEFAULT_MODEL_PROFILES: ModelProfile[] = [
+  {
+    name: 'claude-sonnet',
+    provider: 'anthropic',
+    model: 'claude-3-sonnet-20240229',
+    maxTokens: 4096,
+    temperature: 0.3,
+    contextWindow: 200000,
+  },
+  {
+    name: 'claude-haiku',
+    provider: 'anthropic',
+    model: 'claude-3-haiku-20240307',
+    maxTokens: 4096,
+    temperature: 0.3,
+    contextWindow: 200000,
+  },
+  {
+    name: 'gpt-4',
+    provider: 'openai',
+    model: 'gpt-4',
+    maxTokens: 4096,
+    temperature: 0.3,
+    contextWindow: 128000,
+  },
+  {
+    name: 'gpt-4o',
+    provider: 'openai',
+    model: 'gpt-4o',
+    maxTokens: 16384,
+    temperature: 0.3,
+    contextWindow: 128000,
+  },
+  {
+    name: 'qwen-coder',
+    provider: 'alibaba',
+    model: 'qwen-coder-plus',
+    maxTokens: 8192,
+    temperature: 0.3,
+    contextWindow: 32000,
+  },
+  {
+    name: 'gemini-pro',
+    provider: 'google',
+    model: 'gemini-1.5-pro',
+    maxTokens: 8192,
+    temperature: 0.3,
+    contextWindow: 2097152,
+  },
+];
+
+export const DEFAULT_MODEL_POINTERS: ModelPointers = {
+  main: 'claude-sonnet',
+  task: 'qwen-coder',
+  reasoning: 'gpt-4',
+  quick: 'claude-haiku',
+};
+
 export class MultiModelManager {
   private config: KodeACPConfig;
   private modelProfiles: Map<string, ModelProfile> = new Map();
   private modelPointers: ModelPointers;
   private currentModel: string;
+  private providers: Map<string, ModelProvider> = createDefaultProviders();
 
   constructor(config: KodeACPConfig) {
     this.config = config;
-    this.modelPointers = {
-      main: 'claude-sonnet',
-      task: 'qwen-coder',
-      reasoning: 'gpt-4',
-      quick: 'claude-haiku',
-    };
-    this.currentModel = this.modelPointers.main;
+    this.modelPointers = { ...DEFAULT_MODEL_POINTERS, ...config.modelPointers };
     this.initializeDefaultModels();
+    this.currentModel = config.defaultModel && this.modelProfiles.has(config.defaultModel)
+      ? config.defaultModel
+      : this.modelPointers.main;
   }
 
   private initializeDefaultModels(): void {
-    // Initialize with common model profiles
-    const defaultModels: ModelProfile[] = [
-      {
-        name: 'claude-sonnet',
-        provider: 'anthropic',
-        model: 'claude-3-sonnet-20240229',
-        maxTokens: 200000,
-        temperature: 0.3,
-        contextWindow: 200000,
-      },
-      {
-        name: 'claude-haiku',
-        provider: 'anthropic',
-        model: 'claude-3-haiku-20240307',
-        maxTokens: 200000,
-        temperature: 0.3,
-        contextWindow: 200000,
-      },
-      {
-        name: 'gpt-4',
-        provider: 'openai',
-        model: 'gpt-4',
-        maxTokens: 128000,
-        temperature: 0.3,
-        contextWindow: 128000,
-      },
-      {
-        name: 'gpt-4o',
-        provider: 'openai',
-        model: 'gpt-4o',
-        maxTokens: 128000,
-        temperature: 0.3,
-        contextWindow: 128000,
-      },
-      {
-        name: 'qwen-coder',
-        provider: 'alibaba',
-        model: 'qwen-coder-plus',
-        maxTokens: 32000,
-        temperature: 0.3,
-        contextWindow: 32000,
-      },
-      {
-        name: 'gemini-pro',
-        provider: 'google',
-        model: 'gemini-1.5-pro',
-        maxTokens: 2097152,
-        temperature: 0.3,
-        contextWindow: 2097152,
-      },
-    ];
-
-    defaultModels.forEach(model => {
-      this.modelProfiles.set(model.name, model);
+    DEFAULT_MODEL_PROFILES.forEach(model => {
+      this.modelProfiles.set(model.name, { ...model });
     });
+
+    // Profiles from configuration extend or override the defaults by name
+    for (const [name, profile] of Object.entries(this.config.models || {})) {
+      this.modelProfiles.set(name, { ...this.modelProfiles.get(name), ...profile, name } as ModelProfile);
+    }
   }
 
   getModelProfile(name: string): ModelProfile | undefined {
@@ -106,13 +138,13 @@ export class MultiModelManager {
 
   addModelProfile(profile: ModelProfile): void {
     this.modelProfiles.set(profile.name, profile);
-    log('info', `Added model profile: ${profile.name}`);
+    logger.info(`Added model profile: ${profile.name}`);
   }
 
   removeModelProfile(name: string): boolean {
     const removed = this.modelProfiles.delete(name);
     if (removed) {
-      log('info', `Removed model profile: ${name}`);
+      logger.info(`Removed model profile: ${name}`);
     }
     return removed;
   }
@@ -128,7 +160,7 @@ export class MultiModelManager {
   setCurrentModel(name: string): boolean {
     if (this.modelProfiles.has(name)) {
       this.currentModel = name;
-      log('info', `Switched to model: ${name}`);
+      logger.info(`Switched to model: ${name}`);
       return true;
     }
     return false;
@@ -144,7 +176,7 @@ export class MultiModelManager {
 
   setModelPointers(pointers: Partial<ModelPointers>): void {
     this.modelPointers = { ...this.modelPointers, ...pointers };
-    log('info', 'Updated model pointers:', this.modelPointers);
+    logger.info('Updated model pointers:', this.modelPointers);
   }
 
   getModelPointers(): ModelPointers {
@@ -160,21 +192,26 @@ export class MultiModelManager {
     const modelName = this.modelPointers[purpose];
     if (this.modelProfiles.has(modelName)) {
       this.currentModel = modelName;
-      log('info', `Switched to ${purpose} model: ${modelName}`);
+      logger.info(`Switched to ${purpose} model: ${modelName}`);
       return true;
     }
     return false;
   }
 
-  async executeWithModel(
-    prompt: string,
+  registerProvider(name: string, provider: ModelProvider): void {
+    this.providers.set(name, provider);
+    logger.info(`Registered model provider: ${name}`);
+  }
+
+  getProvider(name: string): ModelProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  async createMessage(
+    messages: ModelMessage[],
     modelName?: string,
-    options?: {
-      temperature?: number;
-      maxTokens?: number;
-      systemPrompt?: string;
-    }
-  ): Promise<string> {
+    options?: ModelCallOptions
+  ): Promise<ModelResponse> {
     const targetModel = modelName || this.currentModel;
     const profile = this.modelProfiles.get(targetModel);
 
@@ -182,47 +219,47 @@ export class MultiModelManager {
       throw new Error(`Model profile not found: ${targetModel}`);
     }
 
-    log('debug', `Executing with model ${targetModel}:`, prompt.substring(0, 100) + '...');
+    // Profiles with a custom endpoint and no dedicated adapter speak the OpenAI wire format
+    const provider = this.providers.get(profile.provider)
+      || (profile.baseUrl ? this.providers.get('openai-compatible') : undefined);
+    if (!provider) {
+      throw new ModelProviderError(`No provider adapter registered for: ${profile.provider}`, profile.provider);
+    }
 
-    // This is a placeholder implementation
-    // In a real implementation, this would call the actual model API
     try {
-      const response = await this.simulateModelCall(profile, prompt, options);
-      return response;
+      return await provider.createMessage(profile, {
+        messages,
+        systemPrompt: options?.systemPrompt,
+        temperature: options?.temperature,
+        maxTokens: options?.maxTokens,
+        tools: options?.tools,
+        signal: options?.signal,
+        onText: options?.onText,
+        onThinking: options?.onThinking,
+      });
     } catch (error) {
-      log('error', `Model call failed for ${targetModel}:`, error);
+      if (options?.signal?.aborted) {
+        logger.debug(`Model call for ${targetModel} aborted`);
+      } else {
+        logger.error(`Model call failed for ${targetModel}:`, error);
+      }
       throw error;
     }
   }
 
-  private async simulateModelCall(
-    profile: ModelProfile,
+  async executeWithModel(
     prompt: string,
-    options?: {
-      temperature?: number;
-      maxTokens?: number;
-      systemPrompt?: string;
-    }
+    modelName?: string,
+    options?: ModelCallOptions
   ): Promise<string> {
-    // Simulate model call with a simple response
-    // In a real implementation, this would make actual API calls
-    await new Promise(resolve => setTimeout(resolve, 100 + Math.random() * 200));
-
-    const systemPrompt = options?.systemPrompt || 'You are a helpful AI assistant.';
-    const temperature = options?.temperature ?? profile.temperature ?? 0.3;
-
-    // Generate a simulated response based on the model type
-    if (profile.provider === 'anthropic') {
-      return `[Claude ${profile.model}] I understand your request about: "${prompt.substring(0, 50)}..." This is a simulated response from the Anthropic API.`;
-    } else if (profile.provider === 'openai') {
-      return `[GPT ${profile.model}] I received your message: "${prompt.substring(0, 50)}..." This is a simulated response from the OpenAI API.`;
-    } else if (profile.provider === 'alibaba') {
-      return `[Qwen ${profile.model}] 我理解您的问题："${prompt.substring(0, 50)}..." 这是来自阿里云API的模拟响应。`;
-    } else if (profile.provider === 'google') {
-      return `[Gemini ${profile.model}] I've processed your request about: "${prompt.substring(0, 50)}..." This is a simulated response from Google's API.`;
-    } else {
-      return `[${profile.name}] Response to: "${prompt.substring(0, 50)}..." This is a simulated response.`;
-    }
+    logger.debug(`Executing with model ${modelName || this.currentModel}:`, prompt.substring(0, 100) + '...');
+
+    const response = await this.createMessage([{ role: 'user', content: prompt }], modelName, options);
+
+    return response.content
+      .filter((block): block is { type: 'text'; text: string } => block.type === 'text')
+      .map(block => block.text)
+      .join('');
   }
 
   async executeInParallel(
@@ -230,11 +267,7 @@ export class MultiModelManager {
       prompt: string;
       modelName?: string;
       purpose?: keyof ModelPointers;
-      options?: {
-        temperature?: number;
-        maxTokens?: number;
-        systemPrompt?: string;
-      };
+      options?: ModelCallOptions;
     }>
   ): Promise<Array<{ model: string; response: string; error?: string }>> {
     const promises = requests.map(async (request) => {
@@ -291,6 +324,6 @@ export class MultiModelManager {
       this.currentModel = config.currentModel;
     }
 
-    log('info', 'Multi-model configuration imported successfully');
+    logger.info('Multi-model configuration imported successfully');
   }
 }
\ No newline at end of file
@@ -0,0 +1,120 @@
+// Working-directory sandbox for file tools
+// Paths resolve against the session's working directory and must stay inside it (or inside an
+// allowlisted directory) after following symlinks
+
+import { existsSync, realpathSync } from 'node:fs';
+import { basename, dirname, isAbsolute, join, resolve, sep } from 'node:path';
+import { KodeACPConfig, KodeToolCall } from './types.ts';
+
+// Input fields holding file system paths, per tool. Memory tools use their own directory.
+export const TOOL_PATH_FIELDS: Record<string, string[]> = {
+  FileRead: ['file_path'],
+  FileWrite: ['file_path'],
+  FileEdit: ['file_path'],
+  MultiEdit: ['file_path'],
+  NotebookRead: ['notebook_path'],
+  NotebookEdit: ['notebook_path'],
+  Glob: ['path'],
+  Grep: ['path'],
+  LS: ['path'],
+};
+
+const GLOB_MAGIC = /[*?[\]{}()!+@]/;
+// Brace and extglob syntax; `{..,x}`, `@(..)` and `.{.,}` all expand to a `..` segment
+const GLOB_GROUP = /[{}(),|]/g;
+
+export class PathSandboxError extends Error {
+  constructor(public path: string, public root: string) {
+    super(`Access denied: ${path} is outside the working directory ${root}`);
+    this.name = 'PathSandboxError';
+  }
+}
+
+export class PathSandbox {
+  private realRoots: string[] | null = null;
+
+  constructor(public readonly root: string, private allowedPaths: string[] = []) {}
+
+  // Resolve a tool path against the working directory; throws PathSandboxError on escapes
+  resolve(filePath: string): string {
+    const absolute = resolve(this.root, filePath);
+    if (!this.contains(absolute)) {
+      throw new PathSandboxError(filePath, this.root);
+    }
+    return absolute;
+  }
+
+  // True when the path, with symlinks followed as far as it exists, is inside an allowed root
+  contains(absolutePath: string): boolean {
+    const real = realpathOfExisting(absolutePath);
+    return this.getRealRoots().some((root) => real === root || real.startsWith(root.endsWith(sep) ? root : root + sep));
+  }
+
+  // Glob patterns may not climb out of their base directory with `..` or absolute paths
+  checkGlobPattern(pattern: string, cwd: string): void {
+    const segments = pattern.split(/[\\/]/);
+    const magicIndex = segments.findIndex((segment) => GLOB_MAGIC.test(segment));
+    const staticPart = magicIndex === -1 ? segments : segments.slice(0, magicIndex);
+    const dynamicPart = magicIndex === -1 ? [] : segments.slice(magicIndex);
+
+    if (dynamicPart.some(climbsUp)) {
+      throw new PathSandboxError(pattern, this.root);
+    }
+    const base = staticPart.join('/') || '.';
+    if (!this.contains(isAbsolute(base) ? base : resolve(cwd, base))) {
+      throw new PathSandboxError(pattern, this.root);
+    }
+  }
+
+  // Reject a tool call whose path inputs leave the sandbox before any backend touches them
+  checkToolCall(toolCall: KodeToolCall): void {
+    for (const field of TOOL_PATH_FIELDS[toolCall.name] || []) {
+      const value = toolCall.input?.[field];
+      if (typeof value === 'string' && value !== '') {
+        this.resolve(value);
+      }
+    }
+    if (toolCall.name === 'Glob' && typeof toolCall.input?.pattern === 'string') {
+      const cwd = toolCall.input.path ? this.resolve(toolCall.input.path) : this.root;
+      this.checkGlobPattern(toolCall.input.pattern, cwd);
+    }
+  }
+
+  private getRealRoots(): string[] {
+    if (!this.realRoots) {
+      this.realRoots = [this.root, ...this.allowedPaths].map((path) => realpathOfExisting(resolve(path)));
+    }
+    return this.realRoots;
+  }
+}
+
+// Sandbox for a session's working directory, falling back to the configured one
+export function createPathSandbox(config: KodeACPConfig, workingDirectory?: string): PathSandbox {
+  return new PathSandbox(workingDirectory || config.workingDirectory || process.cwd(), config.allowedPaths);
+}
+
+function climbsUp(segment: string): boolean {
+  return segment === '..' || (/[{(]/.test(segment) && segment.replace(GLOB_GROUP, '').includes('..'));
+}
+
+// realpath of the longest existing prefix, with the missing remainder appended
+function realpathOfExisting(path: string): string {
+  let existing = path;
+  const missing: string[] = [];
+  while (!existsSync(existing)) {
+    const parent = dirname(existing);
+    if (parent === existing) {
+      break;
+    }
+    missing.unshift(basename(existing));
+    existing = parent;
+  }
+
+  let real: string;
+  try {
+    real = realpathSync(existing);
+  } catch {
+    real = existing;
+  }
+  return missing.length > 0 ? join(real, ...missing) : real;
+}
@@ -1,11 +1,20 @@
 // Cross-platform process management for JSR compatibility
 // This module provides platform-agnostic process spawning capabilities
 
+import { getEnv, log } from './utils.ts';
+import { EventEmitter } from './event-emitter.ts';
+
 export interface ProcessOptions {
   cwd?: string;
   env?: Record<string, string>;
   shell?: boolean;
   timeout?: number;
+  // Kills the command when aborted
+  signal?: AbortSignal;
+  // Called with each chunk of output as it arrives
+  onOutput?: (chunk: string, stream: 'stdout' | 'stderr') => void;
+  // Characters kept per stream; the middle of longer output is replaced by a marker
+  maxOutputSize?: number;
 }
 
 export interface ProcessResult {
@@ -13,6 +22,82 @@ export interface ProcessResult {
   stderr: string;
   exitCode: number | null;
   signal: string | null;
+  // The command ran past its timeout and was killed
+  timedOut?: boolean;
+}
+
+const DEFAULT_TIMEOUT = 30000;
+const DEFAULT_MAX_OUTPUT_SIZE = 1024 * 1024;
+// Time between SIGTERM and SIGKILL for commands that ignore termination
+const KILL_GRACE_MS = 2000;
+
+const DEFAULT_BACKGROUND_OUTPUT_SIZE = 100 * 1024;
+// Finished background shells are forgotten once their last output was read, or after this long
+const FINISHED_SHELL_TTL_MS = 10 * 60 * 1000;
+
+// Keeps the most recent output of a long-running stream; positions count every character written
+export class OutputRing {
+  private text = '';
+  private written = 0;
+
+  constructor(private limit: number = DEFAULT_BACKGROUND_OUTPUT_SIZE) {}
+
+  append(chunk: string): void {
+    this.text += chunk;
+    this.written += chunk.length;
+    if (this.text.length > this.limit) {
+      this.text = this.text.slice(this.text.length - this.limit);
+    }
+  }
+
+  // Total characters written so far
+  get position(): number {
+    return this.written;
+  }
+
+  // Output written after `from`, and how much of it is no longer kept
+  readFrom(from: number): { text: string; dropped: number } {
+    const start = this.written - this.text.length;
+    const dropped = Math.max(start - from, 0);
+    return { text: this.text.slice(Math.max(from - start, 0)), dropped };
+  }
+}
+
+// Collects a stream's output, keeping its start and end once it grows past the limit
+export class OutputBuffer {
+  private head = '';
+  private tail = '';
+  private dropped = 0;
+
+  constructor(private limit: number = DEFAULT_MAX_OUTPUT_SIZE) {}
+
+  append(chunk: string): void {
+    const headRoom = Math.ceil(this.limit / 2) - this.head.length;
+    if (headRoom > 0) {
+      this.head += chunk.slice(0, headRoom);
+      chunk = chunk.slice(headRoom);
+    }
+    if (!chunk) {
+      return;
+    }
+
+    this.tail += chunk;
+    const tailLimit = Math.floor(this.limit / 2);
+    if (this.tail.length > tailLimit) {
+      this.dropped += this.tail.length - tailLimit;
+      this.tail = this.tail.slice(this.tail.length - tailLimit);
+    }
+  }
+
+  get truncated(): boolean {
+    return this.dropped > 0;
+  }
+
+  toString(): string {
+    return this.dropped > 0
+      ? `${this.head}\n\n... [${this.dropped} characters truncated] ...\n\n${this.tail}`
+      : this.head + this.tail;
+  }
 }
 
 export interface ProcessInfo {
@@ -20,6 +105,49 @@ export interface ProcessInfo {
   command: string;
   args: string[];
   running: boolean;
+  startedAt?: number;
+}
+
+// A command started with startBackground, kept until it is removed
+export interface BackgroundShellInfo {
+  id: string;
+  pid: number;
+  command: string;
+  cwd?: string;
+  startedAt: number;
+  running: boolean;
+  exitCode: number | null;
+  signal: string | null;
+  // Set when the shell was stopped with killBackground
+  killed: boolean;
+  // Session that started the shell; only that session can read or kill it
+  owner?: string;
+}
+
+// Output a background shell produced since the previous read
+export interface BackgroundShellOutput {
+  shell: BackgroundShellInfo;
+  stdout: string;
+  stderr: string;
+  // Characters that scrolled out of the ring buffer before they were read
+  droppedStdout: number;
+  droppedStderr: number;
+}
+
+interface BackgroundShell {
+  info: BackgroundShellInfo;
+  stdout: OutputRing;
+  stderr: OutputRing;
+  stdoutCursor: number;
+  stderrCursor: number;
+  kill(signal: 'SIGTERM' | 'SIGKILL'): void;
+}
+
+interface TrackedProcess {
+  process: CrossPlatformProcess;
+  command: string;
+  args: string[];
+  startedAt: number;
 }
 
 // Cross-platform process interface
@@ -28,6 +156,9 @@ export interface CrossPlatformProcess {
   readonly stdout?: ReadableStream<string>;
   readonly stderr?: ReadableStream<string>;
 
+  // Resolves once stdin has taken the data, waiting while the pipe is full; rejects when stdin
+  // is closed or the write fails
+  write(data: string): Promise<void>;
   kill(signal?: string | number): boolean;
   on(event: string, listener: (...args: any[]) => void): any;
   once(event: string, listener: (...args: any[]) => void): any;
@@ -37,10 +168,199 @@ export interface CrossPlatformProcess {
 // Type for Node.js signals
 type Signals = number;
 
+// Marks the end of a command's output in a persistent shell
+const SHELL_SENTINEL = '__KODE_SHELL_DONE__';
+
+// A long-lived shell that runs commands one at a time, so `cd`, `export` and sourced scripts carry
+// over between them. After each command the shell prints a sentinel line with the exit code and
+// its working directory; if the shell dies it is started again in that directory on the next run.
+export class PersistentShell {
+  private child: import('child_process').ChildProcess | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private handlers: {
+    onData(stream: 'stdout' | 'stderr', chunk: string): void;
+    onExit(code: number | null, signal: string | null): void;
+  } | null = null;
+
+  constructor(
+    public cwd?: string,
+    private shellPath?: string,
+    private onStart?: (child: import('child_process').ChildProcess, shellPath: string) => void
+  ) {}
+
+  get running(): boolean {
+    return this.child !== null;
+  }
+
+  // Commands are queued; each one waits for the previous to finish
+  run(command: string, options: ProcessOptions = {}): Promise<ProcessResult> {
+    const result = this.queue.then(() => this.execute(command, options));
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  close(): void {
+    if (this.child) {
+      this.killGroup(this.child, 'SIGKILL');
+      this.child = null;
+    }
+  }
+
+  private async start(): Promise<import('child_process').ChildProcess> {
+    const { spawn } = await import('child_process');
+    const { existsSync } = await import('fs');
+    const shellPath = this.shellPath || (existsSync('/bin/bash') ? '/bin/bash' : 'sh');
+
+    // Own process group, so a timeout can stop the shell together with whatever it runs
+    const child = spawn(shellPath, [], {
+      cwd: this.cwd,
+      detached: true,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    child.stdout?.setEncoding('utf8').on('data', (chunk: string) => this.handlers?.onData('stdout', chunk));
+    child.stderr?.setEncoding('utf8').on('data', (chunk: string) => this.handlers?.onData('stderr', chunk));
+    // Writes to a shell that just died fail with EPIPE; the exit handler reports it
+    child.stdin?.on('error', () => {});
+
+    const onExit = (code: number | null, signal: string | null) => {
+      if (this.child === child) {
+        this.child = null;
+      }
+      this.handlers?.onExit(code, signal);
+    };
+    // close waits for stdout and stderr to drain, so no output is lost
+    child.once('close', (code, signal) => onExit(code, signal));
+    child.once('error', (error) => {
+      log('error', `Persistent shell failed: ${error.message}`);
+      onExit(null, null);
+    });
+
+    this.child = child;
+    this.onStart?.(child, shellPath);
+    return child;
+  }
+
+  private async execute(command: string, options: ProcessOptions): Promise<ProcessResult> {
+    const { timeout, signal, onOutput, maxOutputSize } = options;
+    if (signal?.aborted) {
+      throw new Error('Command cancelled');
+    }
+
+    const child = this.child ?? (await this.start());
+    const sentinel = `${SHELL_SENTINEL}${Math.random().toString(36).slice(2)}`;
+
+    return new Promise((resolve, reject) => {
+      const output = { stdout: new OutputBuffer(maxOutputSize), stderr: new OutputBuffer(maxOutputSize) };
+      // Text held back because it may be the start of the sentinel
+      const pending = { stdout: '', stderr: '' };
+      const done = { stdout: false, stderr: false };
+      let exitCode: number | null = null;
+      let timedOut = false;
+      let killTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const emit = (stream: 'stdout' | 'stderr', text: string) => {
+        if (text) {
+          output[stream].append(text);
+          onOutput?.(text, stream);
+        }
+      };
+
+      const terminate = () => {
+        this.killGroup(child, 'SIGTERM');
+        killTimer = setTimeout(() => this.killGroup(child, 'SIGKILL'), KILL_GRACE_MS);
+      };
+      const timeoutId = timeout
+        ? setTimeout(() => {
+            timedOut = true;
+            terminate();
+          }, timeout)
+        : undefined;
+      signal?.addEventListener('abort', terminate, { once: true });
+
+      const settle = (result: { exitCode: number | null; signal: string | null } | null) => {
+        this.handlers = null;
+        clearTimeout(timeoutId);
+        clearTimeout(killTimer);
+        signal?.removeEventListener('abort', terminate);
+
+        if (signal?.aborted) {
+          reject(new Error('Command cancelled'));
+        } else {
+          resolve({
+            stdout: output.stdout.toString(),
+            stderr: output.stderr.toString(),
+            exitCode: result?.exitCode ?? null,
+            signal: result?.signal ?? null,
+            timedOut,
+          });
+        }
+      };
+
+      this.handlers = {
+        onData: (stream, chunk) => {
+          if (done[stream]) {
+            return;
+          }
+          const text = pending[stream] + chunk;
+          const index = text.indexOf(sentinel);
+          const lineEnd = index === -1 ? -1 : text.indexOf('\n', index);
+          if (lineEnd === -1) {
+            // Emit everything that cannot be part of a sentinel
+            const keep = index !== -1 ? text.length - index : Math.min(sentinel.length, text.length);
+            emit(stream, text.slice(0, text.length - keep));
+            pending[stream] = text.slice(text.length - keep);
+            return;
+          }
+
+          emit(stream, text.slice(0, index));
+          pending[stream] = '';
+          done[stream] = true;
+          if (stream === 'stdout') {
+            const match = /^ (\d+) (.*)$/.exec(text.slice(index + sentinel.length, lineEnd));
+            if (match) {
+              exitCode = Number(match[1]);
+              this.cwd = match[2] || this.cwd;
+            }
+          }
+          if (done.stdout && done.stderr) {
+            settle({ exitCode, signal: null });
+          }
+        },
+        // The shell died before printing the sentinel: `exit`, a crash, or a timeout kill
+        onExit: (code, exitSignal) => {
+          emit('stdout', pending.stdout);
+          emit('stderr', pending.stderr);
+          settle({ exitCode: code, signal: exitSignal });
+        },
+      };
+
+      // eval keeps cd/export in this shell, and a syntax error cannot swallow the sentinel lines
+      const quoted = `'${command.replace(/'/g, `'\\''`)}'`;
+      child.stdin?.write(
+        `eval ${quoted} </dev/null\n` +
+        `__kode_status=$?\n` +
+        `printf '%s %d %s\\n' '${sentinel}' "$__kode_status" "$PWD"\n` +
+        `printf '%s\\n' '${sentinel}' >&2\n`
+      );
+    });
+  }
+
+  private killGroup(child: import('child_process').ChildProcess, signal: NodeJS.Signals): void {
+    try {
+      process.kill(-child.pid!, signal);
+    } catch {
+      child.kill(signal);
+    }
+  }
+}
+
 // Process manager for cross-platform compatibility
 export class ProcessManager {
   private static instance: ProcessManager;
-  private activeProcesses: Map<number, CrossPlatformProcess> = new Map();
+  private activeProcesses: Map<number, TrackedProcess> = new Map();
+  private backgroundShells: Map<string, BackgroundShell> = new Map();
+  private nextShellId = 0;
+  private persistentShells: Map<string, PersistentShell> = new Map();
 
   static getInstance(): ProcessManager {
     if (!ProcessManager.instance) {
@@ -53,21 +373,22 @@ export class ProcessManager {
     command: string,
     options: ProcessOptions = {}
   ): Promise<ProcessResult> {
-    const { cwd, timeout = 30000 } = options;
+    const { timeout = DEFAULT_TIMEOUT } = options;
 
     try {
       // Try to use Deno's command API if available
       if (typeof (globalThis as any).Deno !== 'undefined') {
-        return await this.executeWithDeno(command, { cwd, timeout });
+        return await this.executeWithDeno(command, { ...options, timeout });
       }
 
       // Fall back to Node.js child_process if available
+      let spawn: typeof import('child_process').spawn;
       try {
-        const { execSync } = await import('child_process');
-        return this.executeWithNodeSync(command, { cwd, timeout });
+        ({ spawn } = await import('child_process'));
       } catch {
         throw new Error('Process execution not supported on this platform');
       }
+      return await this.executeWithNode(spawn, command, { ...options, timeout });
     } catch (error) {
       throw new Error(`Command execution failed: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -96,70 +417,161 @@ export class ProcessManager {
     }
   }
 
-  private async executeWithDeno(
-    command: string,
-    options: { cwd?: string; timeout?: number }
-  ): Promise<ProcessResult> {
-    const { cwd, timeout } = options;
+  private async executeWithDeno(command: string, options: ProcessOptions): Promise<ProcessResult> {
+    const { cwd, timeout, signal, onOutput, maxOutputSize } = options;
     const Deno = (globalThis as any).Deno;
 
-    const commandProcess = new Deno.Command('sh', {
+    if (signal?.aborted) {
+      throw new Error('Command cancelled');
+    }
+
+    const child = new Deno.Command('sh', {
       args: ['-c', command],
       cwd,
+      stdin: 'null',
       stdout: 'piped',
       stderr: 'piped',
-    });
+    }).spawn();
 
-    const { code, stdout, stderr } = await Promise.race([
-      commandProcess.output(),
-      new Promise<{ code: number; stdout: Uint8Array; stderr: Uint8Array }>((_, reject) =>
-        setTimeout(() => reject(new Error('Command timeout')), timeout)
-      ),
-    ]);
+    const stdout = new OutputBuffer(maxOutputSize);
+    const stderr = new OutputBuffer(maxOutputSize);
+    const pump = async (stream: ReadableStream<Uint8Array>, buffer: OutputBuffer, name: 'stdout' | 'stderr') => {
+      const decoder = new TextDecoder();
+      for await (const bytes of stream) {
+        const chunk = decoder.decode(bytes, { stream: true });
+        buffer.append(chunk);
+        onOutput?.(chunk, name);
+      }
+    };
 
-    return {
-      stdout: new TextDecoder().decode(stdout),
-      stderr: new TextDecoder().decode(stderr),
-      exitCode: code,
-      signal: null,
+    let timedOut = false;
+    let killTimer: ReturnType<typeof setTimeout> | undefined;
+    const terminate = () => {
+      try {
+        child.kill('SIGTERM');
+        killTimer = setTimeout(() => {
+          try {
+            child.kill('SIGKILL');
+          } catch {
+            // Already exited
+          }
+        }, KILL_GRACE_MS);
+      } catch {
+        // Already exited
+      }
     };
+    const timeoutId = timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          terminate();
+        }, timeout)
+      : undefined;
+    signal?.addEventListener('abort', terminate, { once: true });
+
+    try {
+      const [status] = await Promise.all([
+        child.status,
+        pump(child.stdout, stdout, 'stdout'),
+        pump(child.stderr, stderr, 'stderr'),
+      ]);
+
+      if (signal?.aborted) {
+        throw new Error('Command cancelled');
+      }
+      return {
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
+        exitCode: status.signal ? null : status.code,
+        signal: status.signal ?? null,
+        timedOut,
+      };
+    } finally {
+      clearTimeout(timeoutId);
+      clearTimeout(killTimer);
+      signal?.removeEventListener('abort', terminate);
+    }
   }
 
-  private executeWithNodeSync(
+  private executeWithNode(
+    spawn: typeof import('child_process').spawn,
     command: string,
-    options: { cwd?: string; timeout?: number }
+    options: ProcessOptions
   ): Promise<ProcessResult> {
     return new Promise((resolve, reject) => {
-      const { execSync } = require('child_process');
-      const { cwd, timeout } = options;
+      const { cwd, timeout, signal, onOutput, maxOutputSize } = options;
+
+      if (signal?.aborted) {
+        reject(new Error('Command cancelled'));
+        return;
+      }
 
-      const timeoutId = setTimeout(() => {
-        reject(new Error('Command timeout'));
-      }, timeout);
+      // Run the shell in its own process group so that killing it also stops its children
+      const child = spawn('sh', ['-c', command], {
+        cwd,
+        detached: true,
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
 
-      try {
-        const stdout = execSync(command, {
-          cwd,
-          encoding: 'utf8',
-          stdio: ['pipe', 'pipe', 'pipe'],
-        });
+      const stdout = new OutputBuffer(maxOutputSize);
+      const stderr = new OutputBuffer(maxOutputSize);
+      let timedOut = false;
+      let exited = false;
+      child.stdout?.setEncoding('utf8').on('data', (chunk: string) => {
+        stdout.append(chunk);
+        onOutput?.(chunk, 'stdout');
+      });
+      child.stderr?.setEncoding('utf8').on('data', (chunk: string) => {
+        stderr.append(chunk);
+        onOutput?.(chunk, 'stderr');
+      });
 
+      const killTree = (killSignal: NodeJS.Signals) => {
+        try {
+          process.kill(-child.pid!, killSignal);
+        } catch {
+          child.kill(killSignal);
+        }
+      };
+
+      // SIGTERM first, then SIGKILL for anything still running after the grace period
+      let killTimer: ReturnType<typeof setTimeout> | undefined;
+      const terminate = () => {
+        killTree('SIGTERM');
+        killTimer = setTimeout(() => {
+          if (!exited) {
+            killTree('SIGKILL');
+          }
+        }, KILL_GRACE_MS);
+      };
+
+      const timeoutId = timeout
+        ? setTimeout(() => {
+            timedOut = true;
+            terminate();
+          }, timeout)
+        : undefined;
+
+      signal?.addEventListener('abort', terminate, { once: true });
+
+      const settle = (error: Error | null, exitCode: number | null, exitSignal: string | null) => {
+        exited = true;
         clearTimeout(timeoutId);
-        resolve({
-          stdout: stdout as string,
-          stderr: '',
-          exitCode: 0,
-          signal: null,
-        });
-      } catch (error: any) {
-        clearTimeout(timeoutId);
-        resolve({
-          stdout: error.stdout || '',
-          stderr: error.stderr || error.message,
-          exitCode: error.status || 1,
-          signal: error.signal || null,
-        });
-      }
+        clearTimeout(killTimer);
+        signal?.removeEventListener('abort', terminate);
+
+        if (signal?.aborted) {
+          reject(new Error('Command cancelled'));
+        } else if (error) {
+          reject(error);
+        } else {
+          resolve({ stdout: stdout.toString(), stderr: stderr.toString(), exitCode, signal: exitSignal, timedOut });
+        }
+      };
+
+      child.once('error', (error) => settle(error, null, null));
+      child.once('close', (code, exitSignal) => settle(null, code, exitSignal));
+
+      this.trackNodeChild(child, 'sh', ['-c', command]);
     });
   }
 
@@ -174,11 +586,24 @@ export class ProcessManager {
       args,
       cwd: options.cwd,
       env: options.env,
+      stdin: 'piped',
       stdout: 'piped',
       stderr: 'piped',
     });
 
     const child = process.spawn();
+    const stdinWriter = child.stdin?.getWriter();
+    const encoder = new TextEncoder();
+    // Gives Deno processes the Node.js 'exit', 'close' and 'error' events
+    const events = new EventEmitter();
+    child.status.then(
+      (status: any) => {
+        const code = status.signal ? null : status.code;
+        events.emit('exit', code, status.signal ?? null);
+        events.emit('close', code, status.signal ?? null);
+      },
+      (error: Error) => events.emit('error', error)
+    );
 
     const denoProcess: CrossPlatformProcess = {
       pid: child.pid || 0,
@@ -191,6 +616,13 @@ export class ProcessManager {
         return child.stderr?.getReader() as any;
       },
 
+      write(data: string): Promise<void> {
+        if (!stdinWriter) {
+          return Promise.reject(new Error('stdin is closed'));
+        }
+        return stdinWriter.write(encoder.encode(data));
+      },
+
       kill(signal?: string | number): boolean {
         try {
           child.kill(signal);
@@ -201,21 +633,22 @@ export class ProcessManager {
       },
 
       on(event: string, listener: (...args: any[]) => void): any {
-        // Deno processes don't have event emitters like Node.js
-        // This is a compatibility shim
+        events.on(event, listener);
         return this;
       },
 
       once(event: string, listener: (...args: any[]) => void): any {
+        events.once(event, listener);
         return this;
       },
 
       emit(event: string, ...args: any[]): boolean {
-        return false;
+        return events.emit(event, ...args);
       },
     };
 
-    this.activeProcesses.set(child.pid, denoProcess);
+    this.activeProcesses.set(child.pid, { process: denoProcess, command, args, startedAt: Date.now() });
+    child.status.then(() => this.activeProcesses.delete(child.pid), () => {});
     return denoProcess;
   }
 
@@ -233,6 +666,11 @@ export class ProcessManager {
       stdio: ['pipe', 'pipe', 'pipe'],
     });
 
+    return this.trackNodeChild(child, command, args);
+  }
+
+  // Wrap a Node.js child process and track it until it exits
+  private trackNodeChild(child: import('child_process').ChildProcess, command: string, args: string[]): CrossPlatformProcess {
     const nodeProcess: CrossPlatformProcess = {
       pid: child.pid || 0,
 
@@ -244,6 +682,16 @@ export class ProcessManager {
         return child.stderr as any;
       },
 
+      write(data: string): Promise<void> {
+        const stdin = child.stdin;
+        if (!stdin || stdin.destroyed || stdin.writableEnded) {
+          return Promise.reject(new Error('stdin is closed'));
+        }
+        return new Promise((resolve, reject) => {
+          stdin.write(data, (error) => (error ? reject(error) : resolve()));
+        });
+      },
+
       kill(signal?: string | number): boolean {
         return child.kill(signal as any);
       },
@@ -263,7 +711,10 @@ export class ProcessManager {
       },
     };
 
-    this.activeProcesses.set(child.pid || 0, nodeProcess);
+    this.activeProcesses.set(child.pid || 0, { process: nodeProcess, command, args, startedAt: Date.now() });
+
+    // Writes to a process that exited fail with EPIPE; write() rejects with it instead
+    child.stdin?.on('error', () => {});
 
     child.on('exit', () => {
       this.activeProcesses.delete(child.pid || 0);
@@ -272,31 +723,230 @@ export class ProcessManager {
     return nodeProcess;
   }
 
+  // Look the executable up on PATH directly; the name never reaches a shell
   async isCommandAvailable(command: string): Promise<boolean> {
-    try {
-      await this.executeCommand(`command -v ${command} || which ${command} || where ${command}`);
-      return true;
-    } catch {
-      return false;
-    }
+    return (await findExecutable(command)) !== null;
   }
 
   getActiveProcesses(): ProcessInfo[] {
-    return Array.from(this.activeProcesses.entries()).map(([pid, process]) => ({
+    return Array.from(this.activeProcesses.entries()).map(([pid, tracked]) => ({
       pid: pid || 0,
-      command: 'unknown',
-      args: [],
+      command: tracked.command,
+      args: tracked.args,
       running: true,
+      startedAt: tracked.startedAt,
     }));
   }
 
+  // Start a shell command that keeps running after this call returns; its output is kept in
+  // ring buffers and read with readBackgroundOutput
+  async startBackground(
+    command: string,
+    options: { cwd?: string; maxOutputSize?: number; owner?: string } = {}
+  ): Promise<BackgroundShellInfo> {
+    const id = `shell_${++this.nextShellId}`;
+    const stdout = new OutputRing(options.maxOutputSize);
+    const stderr = new OutputRing(options.maxOutputSize);
+    const info: BackgroundShellInfo = {
+      id,
+      pid: 0,
+      command,
+      cwd: options.cwd,
+      startedAt: Date.now(),
+      running: true,
+      exitCode: null,
+      signal: null,
+      killed: false,
+      owner: options.owner,
+    };
+    const onExit = (exitCode: number | null, signal: string | null) => {
+      info.running = false;
+      info.exitCode = exitCode;
+      info.signal = signal;
+      const expiry = setTimeout(() => this.forgetBackgroundShell(id), FINISHED_SHELL_TTL_MS);
+      (expiry as any).unref?.();
+    };
+
+    let kill: BackgroundShell['kill'];
+    const Deno = (globalThis as any).Deno;
+    if (typeof Deno !== 'undefined') {
+      // Detached into its own process group, as under Node.js below
+      const child = new Deno.Command('sh', {
+        args: ['-c', command],
+        cwd: options.cwd,
+        detached: true,
+        stdin: 'null',
+        stdout: 'piped',
+        stderr: 'piped',
+      }).spawn();
+      info.pid = child.pid;
+      const pump = async (stream: ReadableStream<Uint8Array>, ring: OutputRing) => {
+        const decoder = new TextDecoder();
+        for await (const bytes of stream) {
+          ring.append(decoder.decode(bytes, { stream: true }));
+        }
+      };
+      pump(child.stdout, stdout).catch(() => {});
+      pump(child.stderr, stderr).catch(() => {});
+      child.status.then((status: any) => onExit(status.signal ? null : status.code, status.signal ?? null));
+      kill = (signal) => {
+        try {
+          Deno.kill(-child.pid, signal);
+        } catch {
+          try {
+            child.kill(signal);
+          } catch {
+            // Already exited
+          }
+        }
+      };
+    } else {
+      const { spawn } = await import('child_process');
+      // Own process group, so killing the shell also stops what it started
+      const child = spawn('sh', ['-c', command], {
+        cwd: options.cwd,
+        detached: true,
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+      info.pid = child.pid || 0;
+      child.stdout?.setEncoding('utf8').on('data', (chunk: string) => stdout.append(chunk));
+      child.stderr?.setEncoding('utf8').on('data', (chunk: string) => stderr.append(chunk));
+      child.once('error', (error) => {
+        stderr.append(`${error.message}\n`);
+        onExit(null, null);
+      });
+      child.once('close', (code, signal) => onExit(code, signal));
+      this.trackNodeChild(child, 'sh', ['-c', command]);
+      kill = (signal) => {
+        try {
+          process.kill(-child.pid!, signal);
+        } catch {
+          child.kill(signal);
+        }
+      };
+    }
+
+    this.backgroundShells.set(id, { info, stdout, stderr, stdoutCursor: 0, stderrCursor: 0, kill });
+    log('debug', `Started background shell ${id} (pid ${info.pid}): ${command}`);
+    return { ...info };
+  }
+
+  // Output produced since the previous call for this shell
+  readBackgroundOutput(id: string, owner?: string): BackgroundShellOutput | undefined {
+    const shell = this.getBackgroundShell(id, owner);
+    if (!shell) {
+      return undefined;
+    }
+
+    const stdout = shell.stdout.readFrom(shell.stdoutCursor);
+    const stderr = shell.stderr.readFrom(shell.stderrCursor);
+    shell.stdoutCursor = shell.stdout.position;
+    shell.stderrCursor = shell.stderr.position;
+    // Nothing more will arrive from a finished shell
+    if (!shell.info.running) {
+      this.forgetBackgroundShell(id);
+    }
+
+    return {
+      shell: { ...shell.info },
+      stdout: stdout.text,
+      stderr: stderr.text,
+      droppedStdout: stdout.dropped,
+      droppedStderr: stderr.dropped,
+    };
+  }
+
+  getBackgroundShells(owner?: string): BackgroundShellInfo[] {
+    return Array.from(this.backgroundShells.values())
+      .filter((shell) => owner === undefined || shell.info.owner === owner)
+      .map((shell) => ({ ...shell.info }));
+  }
+
+  // Stop a background shell: SIGTERM, then SIGKILL if it is still running after the grace period.
+  // Resolves to the final state, or undefined for an unknown id
+  async killBackground(id: string, owner?: string): Promise<BackgroundShellInfo | undefined> {
+    const shell = this.getBackgroundShell(id, owner);
+    if (!shell) {
+      return undefined;
+    }
+    if (!shell.info.running) {
+      return { ...shell.info };
+    }
+
+    shell.info.killed = true;
+    shell.kill('SIGTERM');
+    const deadline = Date.now() + KILL_GRACE_MS;
+    while (shell.info.running && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    if (shell.info.running) {
+      shell.kill('SIGKILL');
+    }
+    return { ...shell.info };
+  }
+
+  // Kill and forget the background shells a session started
+  closeBackgroundShells(owner: string): void {
+    for (const [id, shell] of this.backgroundShells) {
+      if (shell.info.owner !== owner) {
+        continue;
+      }
+      if (shell.info.running) {
+        shell.info.killed = true;
+        shell.kill('SIGKILL');
+      }
+      this.backgroundShells.delete(id);
+    }
+  }
+
+  private forgetBackgroundShell(id: string): void {
+    if (this.backgroundShells.delete(id)) {
+      log('debug', `Forgot finished background shell ${id}`);
+    }
+  }
+
+  // Shells started by another session are reported as unknown
+  private getBackgroundShell(id: string, owner: string | undefined): BackgroundShell | undefined {
+    const shell = this.backgroundShells.get(id);
+    return shell && shell.info.owner === owner ? shell : undefined;
+  }
+
+  // Run a command in the persistent shell for `key` (a session id), starting it in cwd on first use
+  runInPersistentShell(key: string, command: string, options: ProcessOptions = {}): Promise<ProcessResult> {
+    let shell = this.persistentShells.get(key);
+    if (!shell) {
+      shell = new PersistentShell(options.cwd, undefined, (child, shellPath) => {
+        log('debug', `Started persistent shell for ${key} (pid ${child.pid})`);
+        this.trackNodeChild(child, shellPath, []);
+      });
+      this.persistentShells.set(key, shell);
+    }
+    return shell.run(command, options);
+  }
+
+  closePersistentShell(key: string): void {
+    this.persistentShells.get(key)?.close();
+    this.persistentShells.delete(key);
+  }
+
   async killAllProcesses(): Promise<void> {
-    for (const [pid, process] of this.activeProcesses) {
+    for (const key of Array.from(this.persistentShells.keys())) {
+      this.closePersistentShell(key);
+    }
+
+    for (const shell of this.backgroundShells.values()) {
+      if (shell.info.running) {
+        shell.info.killed = true;
+        shell.kill('SIGKILL');
+      }
+    }
+
+    for (const [pid, tracked] of this.activeProcesses) {
       try {
-        process.kill();
+        tracked.process.kill();
         this.activeProcesses.delete(pid);
       } catch (error) {
-        console.error(`Failed to kill process ${pid}:`, error);
+        log('error', `Failed to kill process ${pid}:`, error);
       }
     }
   }
@@ -316,4 +966,86 @@ export async function spawnProcess(command: string, args?: string[], options?: P
 
 export async function isCommandAvailable(command: string): Promise<boolean> {
   return processManager.isCommandAvailable(command);
+}
+
+// Full path of an executable: names containing a path separator are checked as they are,
+// bare names are searched on PATH (with PATHEXT extensions on Windows)
+export async function findExecutable(command: string): Promise<string | null> {
+  if (!command) {
+    return null;
+  }
+
+  const fs = await import('fs');
+  const path = await import('path');
+  const windows = typeof process !== 'undefined'
+    ? process.platform === 'win32'
+    : (globalThis as any).Deno?.build?.os === 'windows';
+  const extensions = windows
+    ? ['', ...(getEnv('PATHEXT') || '.COM;.EXE;.BAT;.CMD').split(';').filter(Boolean)]
+    : [''];
+
+  const isExecutable = (candidate: string): boolean => {
+    try {
+      if (!fs.statSync(candidate).isFile()) {
+        return false;
+      }
+      fs.accessSync(candidate, windows ? fs.constants.F_OK : fs.constants.X_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (command.includes('/') || (windows && command.includes('\\'))) {
+    const found = extensions.map((extension) => command + extension).find(isExecutable);
+    return found ? path.resolve(found) : null;
+  }
+
+  for (const dir of (getEnv('PATH') || '').split(path.delimiter)) {
+    if (!dir) continue;
+    for (const extension of extensions) {
+      const candidate = path.join(dir, command + extension);
+      if (isExecutable(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+// Invoke `onLine` for each line of process output. Accepts Node.js readables as well as
+// Web stream readers (as exposed by Deno processes).
+export function readProcessLines(stream: any, onLine: (line: string) => void): void {
+  if (!stream) {
+    return;
+  }
+
+  let buffer = '';
+  const push = (text: string) => {
+    buffer += text;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      onLine(line.replace(/\r$/, ''));
+    }
+  };
+
+  if (typeof stream.on === 'function') {
+    stream.on('data', (chunk: any) => push(chunk.toString()));
+    stream.on('end', () => {
+      if (buffer) onLine(buffer);
+    });
+    return;
+  }
+
+  const reader = typeof stream.getReader === 'function' ? stream.getReader() : stream;
+  const decoder = new TextDecoder();
+  (async () => {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      push(typeof value === 'string' ? value : decoder.decode(value, { stream: true }));
+    }
+    if (buffer) onLine(buffer);
+  })().catch(() => {});
 }
\ No newline at end of file
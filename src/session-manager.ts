@@ -2,30 +2,32 @@
 // Based on the reference project's session lifecycle patterns
 
 import { EventEmitter } from './event-emitter.ts';
-import { log, generateSessionId } from './utils.ts';
-import { ToolPermissionManager } from './tool-converter.ts';
+import { generateSessionId } from './utils.ts';
+import { createLogger } from './logger.ts';
+import { PERMISSION_MODES, PermissionMode, PermissionPrompt, ToolPermissionManager } from './tool-converter.ts';
+import { KodeSession, SessionMode } from './types.ts';
+
+const logger = createLogger('session');
 
 export interface SessionConfig {
   id?: string;
-  mode?: 'default' | 'accept_edits' | 'bypass_permissions' | 'plan';
+  mode?: SessionMode;
   workingDirectory?: string;
-  permissionMode?: 'yolo' | 'conservative';
+  permissionMode?: 'safe' | 'yolo';
   timeout?: number;
   maxToolCalls?: number;
 }
 
-export interface SessionState {
-  id: string;
-  mode: string;
-  workingDirectory: string;
-  permissionMode: string;
-  createdAt: number;
-  lastActivity: number;
-  toolCallCount: number;
-  isActive: boolean;
-  metadata: Map<string, any>;
+export interface SessionManagerOptions {
+  sessionTimeout?: number;
+  maxSessions?: number;
 }
 
+// Sessions are the agent's KodeSession objects
+export type SessionState = KodeSession;
+
+const DEFAULT_MAX_TOOL_CALLS = 50;
+
 export interface SessionEvent {
   type: 'created' | 'updated' | 'destroyed' | 'timeout' | 'mode_changed';
   sessionId: string;
@@ -35,14 +37,16 @@ export interface SessionEvent {
 
 export class SessionManager extends EventEmitter {
   private sessions: Map<string, SessionState> = new Map();
-  private permissionManager: ToolPermissionManager;
-  private cleanupInterval: number | null = null;
+  // Permission mode and remembered decisions are kept per session
+  private permissionManagers: Map<string, ToolPermissionManager> = new Map();
+  private cleanupInterval: ReturnType<typeof setInterval> | null = null;
   private defaultSessionTimeout: number = 1800000; // 30 minutes
   private maxSessions: number = 100;
 
-  constructor() {
+  constructor(options: SessionManagerOptions = {}) {
     super();
-    this.permissionManager = new ToolPermissionManager();
+    this.defaultSessionTimeout = options.sessionTimeout ?? this.defaultSessionTimeout;
+    this.maxSessions = options.maxSessions ?? this.maxSessions;
     this.startCleanupInterval();
   }
 
@@ -57,22 +61,26 @@ export class SessionManager extends EventEmitter {
       }
     }
 
+    const permissionMode = config.permissionMode || 'yolo';
     const session: SessionState = {
       id: sessionId,
-      mode: config.mode || 'default',
+      mode: config.mode || (permissionMode === 'yolo' ? 'bypass_permissions' : 'default'),
       workingDirectory: config.workingDirectory || this.getCurrentWorkingDirectory(),
-      permissionMode: config.permissionMode || 'yolo',
+      permissionMode,
       createdAt: Date.now(),
       lastActivity: Date.now(),
+      timeout: config.timeout ?? this.defaultSessionTimeout,
       toolCallCount: 0,
       isActive: true,
       metadata: new Map(),
+      cancelled: false,
+      abortController: null,
+      messages: [],
+      maxToolCalls: config.maxToolCalls ?? DEFAULT_MAX_TOOL_CALLS,
     };
 
     this.sessions.set(sessionId, session);
-
-    // Set permission mode for the session
-    this.permissionManager.setMode(session.mode);
+    this.permissionManagers.set(sessionId, new ToolPermissionManager(session.mode));
 
     this.emit('session_event', {
       type: 'created',
@@ -81,10 +89,11 @@ export class SessionManager extends EventEmitter {
       data: { session },
     });
 
-    log('info', `Session created: ${sessionId} (mode: ${session.mode})`);
+    logger.with({ sessionId }).info(`Session created: ${sessionId} (mode: ${session.mode})`);
     return sessionId;
   }
 
+  // Returns the live session so that turn state (cancellation, history) is shared with its owner
   async getSession(sessionId: string): Promise<SessionState | null> {
     const session = this.sessions.get(sessionId);
 
@@ -96,7 +105,7 @@ export class SessionManager extends EventEmitter {
     session.lastActivity = Date.now();
     this.sessions.set(sessionId, session);
 
-    return { ...session };
+    return session;
   }
 
   async updateSession(
@@ -114,7 +123,7 @@ export class SessionManager extends EventEmitter {
 
     if (updates.mode && updates.mode !== session.mode) {
       session.mode = updates.mode;
-      this.permissionManager.setMode(updates.mode);
+      this.permissionManagers.get(sessionId)?.setMode(updates.mode);
       changes.push(`mode: ${updates.mode}`);
     }
 
@@ -148,7 +157,7 @@ export class SessionManager extends EventEmitter {
         });
       }
 
-      log('info', `Session updated: ${sessionId} (${changes.join(', ')})`);
+      logger.with({ sessionId }).info(`Session updated: ${sessionId} (${changes.join(', ')})`);
     }
 
     return true;
@@ -161,8 +170,12 @@ export class SessionManager extends EventEmitter {
       return false;
     }
 
+    // Stop any prompt turn still running in the session
     session.isActive = false;
+    session.cancelled = true;
+    session.abortController?.abort();
     this.sessions.delete(sessionId);
+    this.permissionManagers.delete(sessionId);
 
     this.emit('session_event', {
       type: 'destroyed',
@@ -171,7 +184,7 @@ export class SessionManager extends EventEmitter {
       data: { session },
     });
 
-    log('info', `Session destroyed: ${sessionId}`);
+    logger.with({ sessionId }).info(`Session destroyed: ${sessionId}`);
     return true;
   }
 
@@ -192,16 +205,27 @@ export class SessionManager extends EventEmitter {
   async checkToolPermission(
     sessionId: string,
     toolName: string,
-    input?: any
+    input?: any,
+    prompt?: PermissionPrompt,
+    key?: string
   ): Promise<boolean> {
     const session = await this.getSession(sessionId);
+    const permissions = this.permissionManagers.get(sessionId);
 
-    if (!session) {
-      log('warn', `Session not found: ${sessionId}`);
+    if (!session || !permissions) {
+      logger.with({ sessionId }).warn(`Session not found: ${sessionId}`);
       return false;
     }
 
-    return this.permissionManager.requestPermission(toolName, input);
+    return permissions.requestPermission(toolName, input, prompt, key);
+  }
+
+  getPermissionManager(sessionId: string): ToolPermissionManager | undefined {
+    return this.permissionManagers.get(sessionId);
+  }
+
+  getAvailableModes(): PermissionMode[] {
+    return PERMISSION_MODES;
   }
 
   async listSessions(): Promise<SessionState[]> {
@@ -223,8 +247,8 @@ export class SessionManager extends EventEmitter {
     const now = Date.now();
     const sessions = Array.from(this.sessions.values());
 
-    const active = sessions.filter(s => s.isActive && (now - s.lastActivity) < this.defaultSessionTimeout).length;
-    const expired = sessions.filter(s => !s.isActive || (now - s.lastActivity) >= this.defaultSessionTimeout).length;
+    const active = sessions.filter(s => s.isActive && (now - s.lastActivity) < s.timeout).length;
+    const expired = sessions.filter(s => !s.isActive || (now - s.lastActivity) >= s.timeout).length;
     const totalToolCalls = sessions.reduce((sum, s) => sum + s.toolCallCount, 0);
 
     return {
@@ -240,7 +264,7 @@ export class SessionManager extends EventEmitter {
     const expired: string[] = [];
 
     for (const [sessionId, session] of this.sessions) {
-      if (!session.isActive || (now - session.lastActivity) >= this.defaultSessionTimeout) {
+      if (!session.isActive || (now - session.lastActivity) >= session.timeout) {
         expired.push(sessionId);
       }
     }
@@ -264,9 +288,12 @@ export class SessionManager extends EventEmitter {
   private startCleanupInterval(): void {
     this.cleanupInterval = setInterval(() => {
       this.cleanupExpiredSessions().catch(error => {
-        log('error', 'Session cleanup failed:', error);
+        logger.error('Session cleanup failed:', error);
       });
-    }, 300000); // Run every 5 minutes
+    }, Math.min(300000, this.defaultSessionTimeout)); // Run every 5 minutes, or sooner for short timeouts
+
+    // Do not keep the process alive just for cleanup
+    (this.cleanupInterval as any).unref?.();
 
     // Clear interval on process exit
     process.on('exit', () => {
@@ -337,8 +364,11 @@ export class SessionManager extends EventEmitter {
       permissionMode: session.permissionMode,
       createdAt: session.createdAt,
       lastActivity: session.lastActivity,
+      timeout: session.timeout,
       toolCallCount: session.toolCallCount,
       metadata: Object.fromEntries(session.metadata),
+      messages: session.messages,
+      maxToolCalls: session.maxToolCalls,
     };
   }
 
@@ -352,13 +382,18 @@ export class SessionManager extends EventEmitter {
       permissionMode: sessionData.permissionMode || 'yolo',
       createdAt: sessionData.createdAt || Date.now(),
       lastActivity: sessionData.lastActivity || Date.now(),
+      timeout: sessionData.timeout ?? this.defaultSessionTimeout,
       toolCallCount: sessionData.toolCallCount || 0,
       isActive: true,
       metadata: new Map(Object.entries(sessionData.metadata || {})),
+      cancelled: false,
+      abortController: null,
+      messages: Array.isArray(sessionData.messages) ? sessionData.messages : [],
+      maxToolCalls: sessionData.maxToolCalls ?? DEFAULT_MAX_TOOL_CALLS,
     };
 
     this.sessions.set(sessionId, session);
-    this.permissionManager.setMode(session.mode);
+    this.permissionManagers.set(sessionId, new ToolPermissionManager(session.mode));
 
     this.emit('session_event', {
       type: 'created',
@@ -367,7 +402,7 @@ export class SessionManager extends EventEmitter {
       data: { session, imported: true },
     });
 
-    log('info', `Session imported: ${sessionId}`);
+    logger.with({ sessionId }).info(`Session imported: ${sessionId}`);
     return sessionId;
   }
 
@@ -0,0 +1,355 @@
+// Minimal TOML parser for configuration files
+// Supports tables, arrays of tables, dotted and quoted keys, strings (basic, literal and
+// multi-line), integers, floats, booleans, arrays and inline tables. Dates are read as strings.
+
+export class TomlParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'TomlParseError';
+  }
+}
+
+export function parseToml(text: string): Record<string, any> {
+  return new TomlParser(text).parse();
+}
+
+class TomlParser {
+  private pos = 0;
+  private root: Record<string, any> = {};
+  private current: Record<string, any> = this.root;
+  // Tables created by a [header], which may not be defined twice
+  private definedTables = new Set<Record<string, any>>();
+
+  constructor(private text: string) {}
+
+  parse(): Record<string, any> {
+    while (true) {
+      this.skipWhitespaceAndComments(true);
+      if (this.pos >= this.text.length) {
+        return this.root;
+      }
+
+      if (this.peek() === '[') {
+        this.parseTableHeader();
+      } else {
+        this.parseKeyValue(this.current);
+      }
+      this.expectLineEnd();
+    }
+  }
+
+  private parseTableHeader(): void {
+    const isArray = this.text.startsWith('[[', this.pos);
+    this.pos += isArray ? 2 : 1;
+    this.skipInlineWhitespace();
+    const keys = this.parseKey();
+    this.skipInlineWhitespace();
+    if (!this.text.startsWith(isArray ? ']]' : ']', this.pos)) {
+      this.fail(`Expected ${isArray ? ']]' : ']'} after table name`);
+    }
+    this.pos += isArray ? 2 : 1;
+
+    const parent = this.walk(this.root, keys.slice(0, -1));
+    const last = keys[keys.length - 1];
+
+    if (isArray) {
+      if (parent[last] === undefined) {
+        parent[last] = [];
+      }
+      if (!Array.isArray(parent[last])) {
+        this.fail(`Key "${keys.join('.')}" is already defined as a non-array`);
+      }
+      const table = {};
+      parent[last].push(table);
+      this.current = table;
+      return;
+    }
+
+    if (parent[last] === undefined) {
+      parent[last] = {};
+    } else if (!isPlainObject(parent[last]) || this.definedTables.has(parent[last])) {
+      this.fail(`Table "${keys.join('.')}" is already defined`);
+    }
+    this.definedTables.add(parent[last]);
+    this.current = parent[last];
+  }
+
+  private parseKeyValue(target: Record<string, any>): void {
+    const keys = this.parseKey();
+    this.skipInlineWhitespace();
+    if (this.peek() !== '=') {
+      this.fail('Expected "=" after key');
+    }
+    this.pos++;
+    this.skipInlineWhitespace();
+
+    const table = this.walk(target, keys.slice(0, -1));
+    const last = keys[keys.length - 1];
+    if (last in table) {
+      this.fail(`Key "${keys.join('.')}" is already defined`);
+    }
+    table[last] = this.parseValue();
+  }
+
+  // Follow (and create) intermediate tables for a dotted key; the last element of an
+  // array of tables is used, as TOML specifies
+  private walk(table: Record<string, any>, keys: string[]): Record<string, any> {
+    let node = table;
+    for (const key of keys) {
+      if (node[key] === undefined) {
+        node[key] = {};
+      }
+      const next = Array.isArray(node[key]) ? node[key][node[key].length - 1] : node[key];
+      if (!isPlainObject(next)) {
+        this.fail(`Key "${key}" is not a table`);
+      }
+      node = next;
+    }
+    return node;
+  }
+
+  private parseKey(): string[] {
+    const keys: string[] = [];
+    while (true) {
+      this.skipInlineWhitespace();
+      const ch = this.peek();
+      if (ch === '"') {
+        keys.push(this.parseBasicString());
+      } else if (ch === "'") {
+        keys.push(this.parseLiteralString());
+      } else {
+        const match = /^[A-Za-z0-9_-]+/.exec(this.text.slice(this.pos));
+        if (!match) {
+          this.fail('Expected a key');
+        }
+        keys.push(match[0]);
+        this.pos += match[0].length;
+      }
+      this.skipInlineWhitespace();
+      if (this.peek() !== '.') {
+        return keys;
+      }
+      this.pos++;
+    }
+  }
+
+  private parseValue(): any {
+    const ch = this.peek();
+    if (ch === '"') {
+      return this.text.startsWith('"""', this.pos) ? this.parseMultilineBasicString() : this.parseBasicString();
+    }
+    if (ch === "'") {
+      return this.text.startsWith("'''", this.pos) ? this.parseMultilineLiteralString() : this.parseLiteralString();
+    }
+    if (ch === '[') {
+      return this.parseArray();
+    }
+    if (ch === '{') {
+      return this.parseInlineTable();
+    }
+
+    const match = /^[^\s,\]}#]+/.exec(this.text.slice(this.pos));
+    if (!match) {
+      this.fail('Expected a value');
+    }
+    const token = match[0];
+    this.pos += token.length;
+
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (token === 'inf' || token === '+inf') return Infinity;
+    if (token === '-inf') return -Infinity;
+    if (/^[+-]?nan$/.test(token)) return NaN;
+    if (/^0x[0-9A-Fa-f_]+$/.test(token)) return parseInt(token.slice(2).replace(/_/g, ''), 16);
+    if (/^0o[0-7_]+$/.test(token)) return parseInt(token.slice(2).replace(/_/g, ''), 8);
+    if (/^0b[01_]+$/.test(token)) return parseInt(token.slice(2).replace(/_/g, ''), 2);
+    if (/^[+-]?\d[\d_]*(\.\d[\d_]*)?([eE][+-]?\d[\d_]*)?$/.test(token)) return Number(token.replace(/_/g, ''));
+    // Dates and times are kept as their string form
+    if (/^\d{4}-\d{2}-\d{2}/.test(token) || /^\d{2}:\d{2}:\d{2}/.test(token)) {
+      const time = /^[ T]\d{2}:\d{2}:\d{2}[^\s,\]}#]*/.exec(this.text.slice(this.pos));
+      if (token.length === 10 && time) {
+        this.pos += time[0].length;
+        return token + time[0];
+      }
+      return token;
+    }
+    this.fail(`Invalid value "${token}"`);
+  }
+
+  private parseArray(): any[] {
+    this.pos++;
+    const items: any[] = [];
+    while (true) {
+      this.skipWhitespaceAndComments(true);
+      if (this.peek() === ']') {
+        this.pos++;
+        return items;
+      }
+      items.push(this.parseValue());
+      this.skipWhitespaceAndComments(true);
+      if (this.peek() === ',') {
+        this.pos++;
+      } else if (this.peek() !== ']') {
+        this.fail('Expected "," or "]" in array');
+      }
+    }
+  }
+
+  private parseInlineTable(): Record<string, any> {
+    this.pos++;
+    const table: Record<string, any> = {};
+    this.skipInlineWhitespace();
+    if (this.peek() === '}') {
+      this.pos++;
+      return table;
+    }
+    while (true) {
+      this.parseKeyValue(table);
+      this.skipInlineWhitespace();
+      const ch = this.peek();
+      this.pos++;
+      if (ch === '}') {
+        return table;
+      }
+      if (ch !== ',') {
+        this.fail('Expected "," or "}" in inline table');
+      }
+    }
+  }
+
+  private parseBasicString(): string {
+    this.pos++;
+    let result = '';
+    while (true) {
+      const ch = this.text[this.pos++];
+      if (ch === undefined || ch === '\n') {
+        this.fail('Unterminated string');
+      }
+      if (ch === '"') {
+        return result;
+      }
+      result += ch === '\\' ? this.parseEscape() : ch;
+    }
+  }
+
+  private parseMultilineBasicString(): string {
+    this.pos += 3;
+    this.skipNewline();
+    let result = '';
+    while (true) {
+      if (this.pos >= this.text.length) {
+        this.fail('Unterminated multi-line string');
+      }
+      if (this.text.startsWith('"""', this.pos)) {
+        this.pos += 3;
+        return result;
+      }
+      const ch = this.text[this.pos++];
+      if (ch !== '\\') {
+        result += ch;
+      } else if (/^[ \t]*\r?\n/.test(this.text.slice(this.pos))) {
+        // Line-ending backslash trims the newline and following whitespace
+        this.pos += /^\s*/.exec(this.text.slice(this.pos))![0].length;
+      } else {
+        result += this.parseEscape();
+      }
+    }
+  }
+
+  private parseLiteralString(): string {
+    this.pos++;
+    const end = this.text.indexOf("'", this.pos);
+    const newline = this.text.indexOf('\n', this.pos);
+    if (end === -1 || (newline !== -1 && newline < end)) {
+      this.fail('Unterminated string');
+    }
+    const result = this.text.slice(this.pos, end);
+    this.pos = end + 1;
+    return result;
+  }
+
+  private parseMultilineLiteralString(): string {
+    this.pos += 3;
+    this.skipNewline();
+    const end = this.text.indexOf("'''", this.pos);
+    if (end === -1) {
+      this.fail('Unterminated multi-line string');
+    }
+    const result = this.text.slice(this.pos, end);
+    this.pos = end + 3;
+    return result;
+  }
+
+  private parseEscape(): string {
+    const ch = this.text[this.pos++];
+    switch (ch) {
+      case 'b': return '\b';
+      case 't': return '\t';
+      case 'n': return '\n';
+      case 'f': return '\f';
+      case 'r': return '\r';
+      case '"': return '"';
+      case '\\': return '\\';
+      case 'u':
+      case 'U': {
+        const length = ch === 'u' ? 4 : 8;
+        const hex = this.text.slice(this.pos, this.pos + length);
+        if (!/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== length) {
+          this.fail('Invalid unicode escape');
+        }
+        this.pos += length;
+        return String.fromCodePoint(parseInt(hex, 16));
+      }
+      default:
+        this.fail(`Invalid escape "\\${ch}"`);
+    }
+  }
+
+  private skipNewline(): void {
+    if (this.text.startsWith('\r\n', this.pos)) {
+      this.pos += 2;
+    } else if (this.peek() === '\n') {
+      this.pos++;
+    }
+  }
+
+  private skipInlineWhitespace(): void {
+    while (this.peek() === ' ' || this.peek() === '\t') {
+      this.pos++;
+    }
+  }
+
+  private skipWhitespaceAndComments(newlines: boolean): void {
+    while (this.pos < this.text.length) {
+      const ch = this.peek();
+      if (ch === ' ' || ch === '\t' || (newlines && (ch === '\n' || ch === '\r'))) {
+        this.pos++;
+      } else if (ch === '#') {
+        const end = this.text.indexOf('\n', this.pos);
+        this.pos = end === -1 ? this.text.length : end;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private expectLineEnd(): void {
+    this.skipWhitespaceAndComments(false);
+    if (this.pos < this.text.length && this.peek() !== '\n' && this.peek() !== '\r') {
+      this.fail('Expected a newline after value');
+    }
+  }
+
+  private peek(): string {
+    return this.text[this.pos];
+  }
+
+  private fail(message: string): never {
+    const line = this.text.slice(0, this.pos).split('\n').length;
+    throw new TomlParseError(message, line);
+  }
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,22 +1,23 @@
 // Tool conversion utilities for ACP protocol compatibility
 // Based on the reference project's tool mapping patterns
 
-import { KodeToolCall, KodeToolResult } from './types.ts';
+import { KodeToolCall, KodeToolResult, ToolMappingConfig } from './types.ts';
 import { log } from './utils.ts';
 
 export interface ToolMapping {
   fromACP: string;
   toKode: string;
   transform?: (input: any) => any;
-  reverseTransform?: (result: any) => any;
+  // Shape the Kode result like the ACP tool's; input is the ACP call's original input
+  reverseTransform?: (result: KodeToolResult, input: any) => any;
 }
 
 export interface ToolConverter {
   // Convert ACP tool call to Kode tool call
-  convertToKode(toolCall: any): KodeToolCall | null;
+  convertToKode(toolCall: any, sessionId: string): KodeToolCall | null;
 
   // Convert Kode tool result back to ACP format
-  convertFromKode(result: KodeToolResult): any;
+  convertFromKode(result: KodeToolResult, sessionId: string): any;
 
   // Get list of supported tools
   getSupportedTools(): string[];
@@ -28,28 +29,28 @@ const DEFAULT_TOOL_MAPPINGS: ToolMapping[] = [
     fromACP: 'read_file',
     toKode: 'FileRead',
     transform: (input) => ({
-      abs_path: input.path,
       file_path: input.path,
     }),
+    reverseTransform: (result, input) => acpResult(result, { path: input.path }),
   },
   {
     fromACP: 'write_file',
     toKode: 'FileWrite',
     transform: (input) => ({
-      abs_path: input.path,
       file_path: input.path,
       content: input.content,
     }),
+    reverseTransform: (result, input) => acpResult(result, { path: input.path, success: !result.is_error }),
   },
   {
     fromACP: 'edit_file',
     toKode: 'FileEdit',
     transform: (input) => ({
-      abs_path: input.path,
       file_path: input.path,
       old_string: input.old_string,
       new_string: input.new_string,
     }),
+    reverseTransform: (result, input) => acpResult(result, { path: input.path, success: !result.is_error }),
   },
   {
     fromACP: 'run_command',
@@ -57,6 +58,7 @@ const DEFAULT_TOOL_MAPPINGS: ToolMapping[] = [
     transform: (input) => ({
       command: input.command,
     }),
+    reverseTransform: (result) => acpResult(result, parseCommandOutput(resultText(result))),
   },
   {
     fromACP: 'glob',
@@ -65,6 +67,7 @@ const DEFAULT_TOOL_MAPPINGS: ToolMapping[] = [
       pattern: input.pattern,
       path: input.path,
     }),
+    reverseTransform: (result) => acpResult(result, { files: result.is_error ? [] : parseFileList(resultText(result)) }),
   },
   {
     fromACP: 'search',
@@ -73,6 +76,7 @@ const DEFAULT_TOOL_MAPPINGS: ToolMapping[] = [
       pattern: input.pattern,
       path: input.path,
     }),
+    reverseTransform: (result) => acpResult(result, { files: result.is_error ? [] : parseFileList(resultText(result)) }),
   },
   {
     fromACP: 'create_task',
@@ -80,6 +84,7 @@ const DEFAULT_TOOL_MAPPINGS: ToolMapping[] = [
     transform: (input) => ({
       description: input.description,
     }),
+    reverseTransform: (result, input) => acpResult(result, { description: input.description }),
   },
   {
     fromACP: 'web_search',
@@ -87,6 +92,7 @@ const DEFAULT_TOOL_MAPPINGS: ToolMapping[] = [
     transform: (input) => ({
       query: input.query,
     }),
+    reverseTransform: (result, input) => acpResult(result, { query: input.query }),
   },
   {
     fromACP: 'web_fetch',
@@ -94,12 +100,87 @@ const DEFAULT_TOOL_MAPPINGS: ToolMapping[] = [
     transform: (input) => ({
       url: input.url,
     }),
+    reverseTransform: (result, input) => acpResult(result, { url: input.url }),
   },
 ];
 
+// The result as text, whether Kode returned a string or content blocks
+function resultText(result: KodeToolResult): string {
+  if (typeof result.content === 'string') {
+    return result.content;
+  }
+  if (Array.isArray(result.content)) {
+    return result.content.map((block: any) => (block?.type === 'text' ? block.text : JSON.stringify(block))).join('\n');
+  }
+  return result.content === undefined || result.content === null ? '' : JSON.stringify(result.content);
+}
+
+// A tool_result with text content, the ACP tool's fields and, for failures, the error message
+function acpResult(result: KodeToolResult, fields: Record<string, any>): any {
+  const text = resultText(result);
+  return {
+    type: 'tool_result',
+    tool_use_id: result.tool_use_id,
+    content: text,
+    is_error: result.is_error || false,
+    ...fields,
+    ...(result.is_error ? { error: text } : {}),
+  };
+}
+
+// Split Bash output into stdout, the `stderr:` section and the trailing `Exit code: N` line
+function parseCommandOutput(text: string): { stdout: string; stderr: string; exit_code: number | null } {
+  const exitMatch = /(?:^|\n\n)Exit code: (-?\d+|none)$/.exec(text);
+  let body = exitMatch ? text.slice(0, exitMatch.index) : text;
+  const exitCode = exitMatch && exitMatch[1] !== 'none' ? Number(exitMatch[1]) : null;
+
+  // Timeout and signal notes are not part of either stream
+  body = body.replace(/(?:^|\n\n)(Command timed out after \d+ms and was killed|Command was killed by \S+)(\n\n.*)?$/s, '');
+
+  const stderrIndex = body.startsWith('stderr:\n') ? 0 : body.lastIndexOf('\n\nstderr:\n');
+  if (stderrIndex === -1) {
+    return { stdout: body, stderr: '', exit_code: exitCode };
+  }
+  const stderrStart = stderrIndex === 0 ? 'stderr:\n'.length : stderrIndex + '\n\nstderr:\n'.length;
+  return { stdout: body.slice(0, stderrIndex), stderr: body.slice(stderrStart), exit_code: exitCode };
+}
+
+// File paths from Glob and Grep output, without the summary and truncation lines
+function parseFileList(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && line !== 'No files found' && !/^Found \d+ files?$/.test(line) && !/^\(Results are truncated/.test(line));
+}
+
+// Build a mapping from configuration: input fields are renamed, everything else passes through
+export function toolMappingFromConfig(acpName: string, config: ToolMappingConfig): ToolMapping {
+  const fields = Object.entries(config.input || {});
+  return {
+    fromACP: acpName,
+    toKode: config.tool,
+    transform: fields.length === 0 ? undefined : (input) => {
+      const result = { ...input };
+      for (const [kodeField, acpField] of fields) {
+        if (acpField in input) {
+          delete result[acpField];
+          result[kodeField] = input[acpField];
+        }
+      }
+      return result;
+    },
+  };
+}
+
+function inFlightKey(sessionId: string, toolCallId: string): string {
+  return `${sessionId}:${toolCallId}`;
+}
+
 export class ACPToolConverter implements ToolConverter {
   private mappings: Map<string, ToolMapping> = new Map();
-  private reverseMappings: Map<string, ToolMapping> = new Map();
+  // Calls converted to Kode and not yet converted back, by session and tool call id; clients pick
+  // their own ids, so two sessions may use the same one at once
+  private inFlight: Map<string, { mapping: ToolMapping; input: any }> = new Map();
 
   constructor(mappings: ToolMapping[] = DEFAULT_TOOL_MAPPINGS) {
     this.initializeMappings(mappings);
@@ -108,11 +189,10 @@ export class ACPToolConverter implements ToolConverter {
   private initializeMappings(mappings: ToolMapping[]) {
     for (const mapping of mappings) {
       this.mappings.set(mapping.fromACP, mapping);
-      this.reverseMappings.set(mapping.toKode, mapping);
     }
   }
 
-  convertToKode(toolCall: any): KodeToolCall | null {
+  convertToKode(toolCall: any, sessionId: string): KodeToolCall | null {
     if (!toolCall || !toolCall.name) {
       log('warn', 'Invalid tool call received:', toolCall);
       return null;
@@ -125,14 +205,15 @@ export class ACPToolConverter implements ToolConverter {
     }
 
     try {
-      const input = mapping.transform
-        ? mapping.transform(toolCall.input || {})
-        : toolCall.input || {};
+      const acpInput = toolCall.input || {};
+      const input = mapping.transform ? mapping.transform(acpInput) : acpInput;
+      const id = toolCall.id || this.generateToolId();
 
+      this.inFlight.set(inFlightKey(sessionId, id), { mapping, input: acpInput });
       return {
         name: mapping.toKode,
         input,
-        id: toolCall.id || this.generateToolId(),
+        id,
       };
     } catch (error) {
       log('error', `Failed to convert tool ${toolCall.name}:`, error);
@@ -140,19 +221,19 @@ export class ACPToolConverter implements ToolConverter {
     }
   }
 
-  convertFromKode(result: KodeToolResult): any {
+  convertFromKode(result: KodeToolResult, sessionId: string): any {
     if (!result || !result.tool_use_id) {
       log('warn', 'Invalid tool result received:', result);
       return result;
     }
 
-    try {
-      // Find the original mapping based on the result
-      const mapping = Array.from(this.reverseMappings.values())
-        .find(m => result.tool_use_id?.toString().includes(m.toKode));
+    const key = inFlightKey(sessionId, result.tool_use_id);
+    const call = this.inFlight.get(key);
+    this.inFlight.delete(key);
 
-      if (mapping && mapping.reverseTransform) {
-        return mapping.reverseTransform(result);
+    try {
+      if (call?.mapping.reverseTransform) {
+        return call.mapping.reverseTransform(result, call.input);
       }
 
       // Default conversion - just return the result as-is
@@ -168,13 +249,17 @@ export class ACPToolConverter implements ToolConverter {
     }
   }
 
+  // Forget a converted call that will not produce a result, e.g. because execution threw
+  discardCall(toolCallId: string, sessionId: string): void {
+    this.inFlight.delete(inFlightKey(sessionId, toolCallId));
+  }
+
   getSupportedTools(): string[] {
     return Array.from(this.mappings.keys());
   }
 
   addMapping(mapping: ToolMapping): void {
     this.mappings.set(mapping.fromACP, mapping);
-    this.reverseMappings.set(mapping.toKode, mapping);
     log('info', `Added tool mapping: ${mapping.fromACP} -> ${mapping.toKode}`);
   }
 
@@ -182,7 +267,6 @@ export class ACPToolConverter implements ToolConverter {
     const mapping = this.mappings.get(acpToolName);
     if (mapping) {
       this.mappings.delete(acpToolName);
-      this.reverseMappings.delete(mapping.toKode);
       log('info', `Removed tool mapping: ${acpToolName} -> ${mapping.toKode}`);
     }
   }
@@ -198,8 +282,25 @@ export interface ToolPermission {
   allowed: boolean;
   reason?: string;
   timestamp: number;
+  // "Always" decisions are remembered and reused for later calls of the same tool
+  persistent?: boolean;
 }
 
+export type PermissionDecision = 'allow_once' | 'allow_always' | 'reject_once' | 'reject_always';
+
+// Asks the user about a tool call; resolves to null when the request was cancelled
+export type PermissionPrompt = (toolName: string, input?: any) => Promise<PermissionDecision | null>;
+
+// Tool names are listed in both their ACP and Kode spellings
+const READ_ONLY_TOOLS = [
+  'read_file', 'glob', 'search',
+  'FileRead', 'Glob', 'Grep', 'LS', 'NotebookRead', 'MemoryRead', 'ThinkTool', 'TodoWrite', 'BashOutput',
+];
+const EDIT_TOOLS = [
+  'write_file', 'edit_file',
+  'FileWrite', 'FileEdit', 'MultiEdit', 'NotebookEdit', 'MemoryWrite',
+];
+
 export interface PermissionMode {
   name: string;
   description: string;
@@ -207,49 +308,55 @@ export interface PermissionMode {
   autoDeny?: string[];
 }
 
+export const PERMISSION_MODES: PermissionMode[] = [
+  {
+    name: 'default',
+    description: 'Auto-approve read operations, ask before anything else',
+    autoApprove: READ_ONLY_TOOLS,
+  },
+  {
+    name: 'accept_edits',
+    description: 'Auto-approve reads and file edits, ask before running commands',
+    autoApprove: [...READ_ONLY_TOOLS, ...EDIT_TOOLS],
+  },
+  {
+    name: 'bypass_permissions',
+    description: 'Auto-approve all operations',
+    autoApprove: ['*'],
+  },
+  {
+    name: 'plan',
+    description: 'Planning mode - read-only analysis, no modifications',
+    autoApprove: READ_ONLY_TOOLS,
+    autoDeny: ['*'],
+  },
+];
+
+// Permission state for one session: the current mode plus remembered decisions
 export class ToolPermissionManager {
   private permissions: Map<string, ToolPermission> = new Map();
   private currentMode: string = 'default';
   private modes: Map<string, PermissionMode> = new Map();
 
-  constructor() {
+  constructor(mode: string = 'default') {
     this.initializeModes();
+    if (this.modes.has(mode)) {
+      this.currentMode = mode;
+    }
   }
 
   private initializeModes() {
-    const modes: PermissionMode[] = [
-      {
-        name: 'default',
-        description: 'Manual approval for all tools',
-        autoApprove: ['read_file', 'glob', 'search'],
-        autoDeny: ['run_command', 'edit_file', 'write_file'],
-      },
-      {
-        name: 'accept_edits',
-        description: 'Auto-approve read operations, prompt for writes',
-        autoApprove: ['read_file', 'glob', 'search'],
-        autoDeny: ['run_command'],
-      },
-      {
-        name: 'bypass_permissions',
-        description: 'Auto-approve all operations',
-        autoApprove: ['*'],
-      },
-      {
-        name: 'plan',
-        description: 'Planning mode - no actual operations',
-        autoDeny: ['*'],
-      },
-    ];
-
-    for (const mode of modes) {
+    for (const mode of PERMISSION_MODES) {
       this.modes.set(mode.name, mode);
     }
   }
 
+  // Decisions are remembered under `key`, which defaults to the tool name
   async requestPermission(
     toolName: string,
-    input?: any
+    input?: any,
+    prompt?: PermissionPrompt,
+    key: string = toolName
   ): Promise<boolean> {
     const mode = this.modes.get(this.currentMode);
     if (!mode) {
@@ -257,29 +364,45 @@ export class ToolPermissionManager {
       return false;
     }
 
+    // Reuse an earlier "always" decision
+    const remembered = this.permissions.get(key);
+    if (remembered?.persistent) {
+      return remembered.allowed;
+    }
+
     // Check auto-approve
     if (mode.autoApprove?.includes('*') || mode.autoApprove?.includes(toolName)) {
-      this.setPermission(toolName, true, 'Auto-approved by mode');
+      this.setPermission(key, true, 'Auto-approved by mode');
       return true;
     }
 
     // Check auto-deny
     if (mode.autoDeny?.includes('*') || mode.autoDeny?.includes(toolName)) {
-      this.setPermission(toolName, false, 'Auto-denied by mode');
+      this.setPermission(key, false, 'Auto-denied by mode');
       return false;
     }
 
+    if (prompt) {
+      const decision = await prompt(toolName, input);
+      const allowed = decision === 'allow_once' || decision === 'allow_always';
+      const persistent = decision === 'allow_always' || decision === 'reject_always';
+
+      this.setPermission(key, allowed, decision ? `User decision: ${decision}` : 'Permission request cancelled', persistent);
+      return allowed;
+    }
+
     // Default behavior - deny and require explicit approval
-    this.setPermission(toolName, false, 'Requires explicit approval');
+    this.setPermission(key, false, 'Requires explicit approval');
     return false;
   }
 
-  setPermission(toolName: string, allowed: boolean, reason?: string): void {
+  setPermission(toolName: string, allowed: boolean, reason?: string, persistent: boolean = false): void {
     this.permissions.set(toolName, {
       toolName,
       allowed,
       reason,
       timestamp: Date.now(),
+      persistent,
     });
   }
 
@@ -309,7 +432,7 @@ export class ToolPermissionManager {
   clearExpiredPermissions(timeout: number = 3600000): void {
     const now = Date.now();
     for (const [key, permission] of this.permissions) {
-      if (now - permission.timestamp > timeout) {
+      if (!permission.persistent && now - permission.timestamp > timeout) {
         this.permissions.delete(key);
       }
     }
@@ -0,0 +1,280 @@
+// Kode tool definitions advertised to models during a prompt turn
+// Input schemas follow Kode's own tool input shapes and are checked before every tool call
+
+import type { ModelToolDefinition } from './model-providers.ts';
+import { JsonSchema, validateJsonSchema } from './json-schema.ts';
+
+export interface KodeToolDefinition {
+  description: string;
+  input_schema: JsonSchema & { type: 'object' };
+}
+
+const stringProp = (description: string): JsonSchema => ({ type: 'string', description });
+const requiredStringProp = (description: string): JsonSchema => ({ type: 'string', description, minLength: 1 });
+const integerProp = (description: string, minimum: number, maximum?: number): JsonSchema =>
+  maximum === undefined ? { type: 'integer', description, minimum } : { type: 'integer', description, minimum, maximum };
+
+export const KODE_TOOL_DEFINITIONS: Record<string, KodeToolDefinition> = {
+  FileRead: {
+    description: 'Read a file from the local filesystem. Supports reading a range of lines with offset and limit.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        file_path: requiredStringProp('The absolute path to the file to read'),
+        offset: integerProp('The line number to start reading from (1-based)', 1),
+        limit: integerProp('The number of lines to read', 1),
+      },
+      required: ['file_path'],
+    },
+  },
+  FileWrite: {
+    description: 'Write a file to the local filesystem, overwriting it if it exists.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        file_path: requiredStringProp('The absolute path to the file to write'),
+        content: stringProp('The content to write to the file'),
+      },
+      required: ['file_path', 'content'],
+    },
+  },
+  FileEdit: {
+    description: 'Replace an exact, unique occurrence of old_string with new_string in a file. Use an empty old_string to create a new file.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        file_path: requiredStringProp('The absolute path to the file to modify'),
+        old_string: stringProp('The text to replace'),
+        new_string: stringProp('The text to replace it with'),
+      },
+      required: ['file_path', 'old_string', 'new_string'],
+    },
+  },
+  MultiEdit: {
+    description: 'Apply several find-and-replace edits to a single file atomically, in order.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        file_path: requiredStringProp('The absolute path to the file to modify'),
+        edits: {
+          type: 'array',
+          description: 'Edits to apply sequentially',
+          items: {
+            type: 'object',
+            properties: {
+              old_string: stringProp('The text to replace'),
+              new_string: stringProp('The text to replace it with'),
+              replace_all: { type: 'boolean', description: 'Replace every occurrence of old_string' },
+            },
+            required: ['old_string', 'new_string'],
+          },
+        },
+      },
+      required: ['file_path', 'edits'],
+    },
+  },
+  Bash: {
+    description: 'Run a shell command in the working directory and return its output, or start it in the background.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        command: requiredStringProp('The command to execute'),
+        timeout: integerProp('Optional timeout in milliseconds (up to 600000)', 1, 600000),
+        run_in_background: {
+          type: 'boolean',
+          description: 'Start the command in the background and return its shell id right away. Use for servers and watchers.',
+        },
+      },
+      required: ['command'],
+    },
+  },
+  BashOutput: {
+    description: 'Read the output a background shell produced since the last read, and whether it is still running.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        bash_id: requiredStringProp('The id of the background shell'),
+        filter: stringProp('Optional regular expression; only matching lines are returned'),
+      },
+      required: ['bash_id'],
+    },
+  },
+  KillShell: {
+    description: 'Stop a background shell started with run_in_background.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        shell_id: requiredStringProp('The id of the background shell to stop'),
+      },
+      required: ['shell_id'],
+    },
+  },
+  Glob: {
+    description: 'Find files by glob pattern, such as "**/*.ts".',
+    input_schema: {
+      type: 'object',
+      properties: {
+        pattern: requiredStringProp('The glob pattern to match files against'),
+        path: stringProp('The directory to search in. Defaults to the working directory'),
+      },
+      required: ['pattern'],
+    },
+  },
+  Grep: {
+    description: 'Search file contents with a regular expression and return the matching files.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        pattern: requiredStringProp('The regular expression to search for'),
+        path: stringProp('The directory to search in. Defaults to the working directory'),
+        include: stringProp('Glob pattern of files to include, such as "*.ts"'),
+      },
+      required: ['pattern'],
+    },
+  },
+  LS: {
+    description: 'List the files and directories in a directory.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        path: requiredStringProp('The absolute path of the directory to list'),
+      },
+      required: ['path'],
+    },
+  },
+  Task: {
+    description: 'Launch a sub-task described in natural language.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        description: stringProp('A short description of the task'),
+        prompt: stringProp('The task for the agent to perform'),
+      },
+      required: ['description'],
+    },
+  },
+  TodoWrite: {
+    description: 'Create or update the todo list for the current session.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        todos: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: stringProp('Unique identifier of the todo'),
+              content: stringProp('What needs to be done'),
+              status: { type: 'string', enum: ['pending', 'in_progress', 'completed'] },
+              priority: { type: 'string', enum: ['high', 'medium', 'low'] },
+            },
+            required: ['content', 'status'],
+          },
+        },
+      },
+      required: ['todos'],
+    },
+  },
+  WebSearch: {
+    description: 'Search the web.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        query: requiredStringProp('The search query'),
+      },
+      required: ['query'],
+    },
+  },
+  WebFetch: {
+    description: 'Fetch the content of a URL.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        url: requiredStringProp('The URL to fetch'),
+      },
+      required: ['url'],
+    },
+  },
+  NotebookRead: {
+    description: 'Read a Jupyter notebook (.ipynb) and return its cells with outputs.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        notebook_path: requiredStringProp('The absolute path to the notebook'),
+      },
+      required: ['notebook_path'],
+    },
+  },
+  NotebookEdit: {
+    description: 'Replace, insert or delete a cell in a Jupyter notebook.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        notebook_path: requiredStringProp('The absolute path to the notebook'),
+        cell_number: integerProp('The 0-based index of the cell to edit', 0),
+        new_source: stringProp('The new source for the cell'),
+        cell_type: { type: 'string', enum: ['code', 'markdown'] },
+        edit_mode: { type: 'string', enum: ['replace', 'insert', 'delete'] },
+      },
+      required: ['notebook_path', 'cell_number'],
+    },
+  },
+  MemoryRead: {
+    description: 'Read from the persistent memory directory. Without file_path, lists the stored memories.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        file_path: stringProp('Path of the memory file, relative to the memory directory'),
+      },
+    },
+  },
+  MemoryWrite: {
+    description: 'Write a file to the persistent memory directory.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        file_path: requiredStringProp('Path of the memory file, relative to the memory directory'),
+        content: stringProp('The content to store'),
+      },
+      required: ['file_path', 'content'],
+    },
+  },
+  ThinkTool: {
+    description: 'Think through a problem step by step. The thought is logged and has no side effects.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        thought: stringProp('Your thoughts'),
+      },
+      required: ['thought'],
+    },
+  },
+  AskExpertModelTool: {
+    description: 'Ask another configured model for a second opinion.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        question: stringProp('The question for the expert model'),
+        expert_model: stringProp('Name of the model profile to consult'),
+      },
+      required: ['question'],
+    },
+  },
+};
+
+export function getToolDefinition(name: string): ModelToolDefinition | undefined {
+  const definition = KODE_TOOL_DEFINITIONS[name];
+  return definition ? { name, ...definition } : undefined;
+}
+
+// JSON Schema of a Kode tool's input, for clients generating typed calls
+export function getToolInputSchema(name: string): JsonSchema | undefined {
+  return KODE_TOOL_DEFINITIONS[name]?.input_schema;
+}
+
+// Field-level problems with a tool call's input, such as "file_path: required"; tools without a
+// definition are not checked
+export function validateToolInput(name: string, input: unknown): string[] {
+  const schema = getToolInputSchema(name);
+  return schema ? validateJsonSchema(schema, input ?? {}) : [];
+}
\ No newline at end of file
@@ -0,0 +1,193 @@
+// Describe Kode tool calls for ACP clients: a title, a kind, the locations they touch and,
+// for file changes, the before/after text editors render as a reviewable diff
+
+import { isAbsolute, relative, resolve } from 'node:path';
+import { ACPToolCallContent, ACPToolCallLocation, ACPToolInfo, KodeToolCall } from './types.ts';
+import { applyTextEdits, TextEdit } from './builtin-tools.ts';
+
+const TOOL_KINDS: Record<string, ACPToolInfo['kind']> = {
+  FileRead: 'read',
+  NotebookRead: 'read',
+  MemoryRead: 'read',
+  LS: 'read',
+  FileWrite: 'edit',
+  FileEdit: 'edit',
+  MultiEdit: 'edit',
+  NotebookEdit: 'edit',
+  MemoryWrite: 'edit',
+  Glob: 'search',
+  Grep: 'search',
+  WebSearch: 'search',
+  Bash: 'execute',
+  BashOutput: 'execute',
+  KillShell: 'execute',
+  WebFetch: 'fetch',
+  ThinkTool: 'think',
+};
+
+// Tools whose file change can be previewed from their input
+const FILE_CHANGE_TOOLS = ['FileWrite', 'FileEdit', 'MultiEdit'];
+
+export interface FileChange {
+  path: string;
+  // null when the file does not exist yet
+  oldText: string | null;
+  newText: string;
+}
+
+export function getToolInfo(toolCall: KodeToolCall, workingDirectory: string): ACPToolInfo {
+  const input = toolCall.input || {};
+  const filePath = input.file_path || input.notebook_path;
+  const absolute = typeof filePath === 'string' ? resolve(workingDirectory, filePath) : undefined;
+  const shown = absolute ? displayPath(absolute, workingDirectory) : '';
+  const locations: ACPToolCallLocation[] = absolute ? [{ path: absolute }] : [];
+
+  let title: string;
+  switch (toolCall.name) {
+    case 'FileRead':
+      title = `Read ${shown}${lineRange(input.offset, input.limit)}`;
+      if (input.offset !== undefined) {
+        locations[0].line = input.offset;
+      }
+      break;
+    case 'FileWrite':
+      title = `Write ${shown}`;
+      break;
+    case 'FileEdit':
+    case 'MultiEdit':
+      title = `Edit ${shown}`;
+      break;
+    case 'NotebookRead':
+      title = `Read notebook ${shown}`;
+      break;
+    case 'NotebookEdit':
+      title = `Edit notebook ${shown}${input.cell_number !== undefined ? ` (cell ${input.cell_number})` : ''}`;
+      break;
+    case 'LS': {
+      const dir = resolve(workingDirectory, input.path || '.');
+      title = `List ${displayPath(dir, workingDirectory)}`;
+      locations.push({ path: dir });
+      break;
+    }
+    case 'Glob':
+      title = `Find ${input.pattern}${input.path ? ` in ${input.path}` : ''}`;
+      break;
+    case 'Grep':
+      title = `Search "${input.pattern}"${input.path ? ` in ${input.path}` : ''}${input.include ? ` (${input.include})` : ''}`;
+      break;
+    case 'Bash':
+      title = input.description || `Run \`${truncate(String(input.command ?? ''), 80)}\``;
+      if (input.run_in_background) {
+        title += ' in the background';
+      }
+      break;
+    case 'BashOutput':
+      title = `Read output of ${input.bash_id}`;
+      break;
+    case 'KillShell':
+      title = `Kill ${input.shell_id}`;
+      break;
+    case 'WebFetch':
+      title = `Fetch ${input.url}`;
+      break;
+    case 'WebSearch':
+      title = `Search the web for "${input.query}"`;
+      break;
+    case 'MemoryRead':
+      title = input.file_path ? `Read memory ${input.file_path}` : 'List memory';
+      locations.length = 0;
+      break;
+    case 'MemoryWrite':
+      title = `Write memory ${input.file_path}`;
+      locations.length = 0;
+      break;
+    case 'ThinkTool':
+      title = 'Think';
+      break;
+    case 'TodoWrite':
+      title = 'Update plan';
+      break;
+    case 'Task':
+      title = `Task: ${input.description || 'Unnamed task'}`;
+      break;
+    default:
+      title = toolCall.name;
+  }
+
+  return {
+    title,
+    kind: TOOL_KINDS[toolCall.name] || 'other',
+    content: [],
+    locations,
+  };
+}
+
+// Work out the change a write or edit will make without touching the file; null for other
+// tools and for edits that will fail
+export async function previewFileChange(
+  toolCall: KodeToolCall,
+  filePath: string,
+  readFile: (path: string) => Promise<string | null>
+): Promise<FileChange | null> {
+  if (!FILE_CHANGE_TOOLS.includes(toolCall.name)) {
+    return null;
+  }
+
+  const input = toolCall.input || {};
+  const oldText = await readFile(filePath);
+  if (toolCall.name === 'FileWrite') {
+    return typeof input.content === 'string' ? { path: filePath, oldText, newText: input.content } : null;
+  }
+
+  const edits: TextEdit[] = toolCall.name === 'MultiEdit'
+    ? input.edits
+    : [{ old_string: input.old_string, new_string: input.new_string, replace_all: input.replace_all }];
+  if (!Array.isArray(edits) || edits.length === 0) {
+    return null;
+  }
+
+  const edited = applyTextEdits(oldText, edits, filePath);
+  return 'error' in edited ? null : { path: filePath, oldText, newText: edited.content };
+}
+
+export function diffContent(change: FileChange): ACPToolCallContent {
+  return change.oldText === null
+    ? { type: 'diff', path: change.path, newText: change.newText }
+    : { type: 'diff', path: change.path, oldText: change.oldText, newText: change.newText };
+}
+
+// Location of the first changed line, so editors can follow along
+export function changeLocation(change: FileChange): ACPToolCallLocation {
+  const oldLines = (change.oldText ?? '').split('\n');
+  const newLines = change.newText.split('\n');
+  let index = 0;
+  while (index < oldLines.length && index < newLines.length && oldLines[index] === newLines[index]) {
+    index++;
+  }
+  return { path: change.path, line: Math.min(index, newLines.length - 1) + 1 };
+}
+
+export function isFileChangeTool(name: string): boolean {
+  return FILE_CHANGE_TOOLS.includes(name);
+}
+
+function displayPath(path: string, workingDirectory: string): string {
+  const relativePath = relative(workingDirectory, path);
+  if (relativePath === '') {
+    return '.';
+  }
+  return relativePath.startsWith('..') || isAbsolute(relativePath) ? path : relativePath;
+}
+
+function lineRange(offset?: number, limit?: number): string {
+  if (offset === undefined && limit === undefined) {
+    return '';
+  }
+  const start = offset ?? 1;
+  return limit !== undefined ? ` (lines ${start}-${start + limit - 1})` : ` (from line ${start})`;
+}
+
+function truncate(text: string, length: number): string {
+  const line = text.split('\n')[0];
+  return line.length > length || line !== text ? `${line.slice(0, length)}…` : line;
+}
@@ -1,8 +1,31 @@
+import type { ModelMessage } from './model-providers.ts';
+import type { ModelPointers, ModelProfile } from './multi-model.ts';
+
+// Permission modes understood by ToolPermissionManager
+export type SessionMode = 'default' | 'accept_edits' | 'bypass_permissions' | 'plan';
+
 export interface KodeSession {
   id: string;
+  mode: SessionMode;
   workingDirectory: string;
-  cancelled: boolean;
   permissionMode: 'safe' | 'yolo';
+  createdAt: number;
+  lastActivity: number;
+  // Inactivity timeout in milliseconds after which the session is destroyed
+  timeout: number;
+  // Tool calls executed over the lifetime of the session
+  toolCallCount: number;
+  isActive: boolean;
+  metadata: Map<string, any>;
+  cancelled: boolean;
+  // Aborts the prompt turn in progress, if any
+  abortController: AbortController | null;
+  // Conversation history sent to the model on each turn
+  messages: ModelMessage[];
+  // Tool call budget for a single prompt turn
+  maxToolCalls: number;
+  // Model profile chosen with session/set_model; unset sessions use the agent's current model
+  model?: string;
 }
 
 export interface KodeToolCall {
@@ -11,6 +34,27 @@ export interface KodeToolCall {
   id?: string;
 }
 
+// Per-call context passed down to tool implementations
+export interface ToolExecutionContext {
+  sessionId?: string;
+  // The session's working directory; file tools resolve paths against it
+  workingDirectory?: string;
+  // Aborted when the prompt turn is cancelled
+  signal?: AbortSignal;
+  // Client-side file access; file tools fall back to disk for missing methods
+  fileSystem?: ToolFileSystem;
+  // Receives command output while the tool is still running
+  onOutput?: (chunk: string) => void;
+}
+
+// File access through the ACP client, which sees unsaved editor buffers
+export interface ToolFileSystem {
+  // Present when the client advertises fs.readTextFile; line is 1-based
+  readTextFile?(path: string, range?: { line?: number; limit?: number }): Promise<string>;
+  // Present when the client advertises fs.writeTextFile
+  writeTextFile?(path: string, content: string): Promise<void>;
+}
+
 export interface KodeToolResult {
   type: 'tool_result';
   content: any;
@@ -40,7 +84,97 @@ export interface ACPToolCallLocation {
 
 export interface KodeACPConfig {
   workingDirectory?: string;
+  // Directories file tools may use outside the session's working directory
+  allowedPaths?: string[];
   permissionMode?: 'safe' | 'yolo';
   defaultModel?: string;
   logLevel?: 'debug' | 'info' | 'warn' | 'error';
-}
\ No newline at end of file
+  // `json` writes one JSON object per line with sessionId / toolName / requestId fields
+  logFormat?: 'text' | 'json';
+  // Also append logs to this file, rotated when it reaches logMaxSize bytes
+  logFile?: string;
+  logMaxSize?: number;
+  logMaxFiles?: number;
+  maxToolCalls?: number;
+  // Inactivity timeout for sessions, in milliseconds
+  sessionTimeout?: number;
+  // Where tools run: the built-in implementations (default), the Kode CLI subprocess, or Kode when
+  // it is installed and answers the protocol handshake
+  toolBackend?: 'auto' | 'kode' | 'builtin';
+  // Run built-in Bash calls of a session in one long-lived shell, keeping cwd and environment
+  persistentShell?: boolean;
+  // Allow/deny rules for Bash commands in the `safe` permission mode
+  commandPolicy?: CommandPolicyConfig;
+  kodeCommand?: string;
+  kodeArgs?: string[];
+  // Model profiles by name; entries with a built-in name override that profile's fields
+  models?: Record<string, Partial<Omit<ModelProfile, 'name'>>>;
+  modelPointers?: Partial<ModelPointers>;
+  // Extra ACP tool names, keyed by the name clients call
+  toolMappings?: Record<string, ToolMappingConfig>;
+  http?: KodeHttpConfig;
+}
+
+// Declarative ACP -> Kode tool mapping from configuration
+export interface ToolMappingConfig {
+  // Kode tool the call is forwarded to
+  tool: string;
+  // Kode input field -> ACP input field; unmapped fields are passed through
+  input?: Record<string, string>;
+}
+
+// Command prefix rules such as `git status` or `curl | sh`; `defaults: false` drops the
+// built-in rules instead of extending them
+export interface CommandPolicyConfig {
+  allow?: string[];
+  deny?: string[];
+  defaults?: boolean;
+}
+
+// Access control for the HTTP mode
+export interface KodeHttpConfig {
+  // Interface to bind; loopback only unless set
+  host?: string;
+  // Bearer token required on every request except health checks and CORS preflights
+  authToken?: string;
+  // Origins allowed to make browser (cross-origin) requests; '*' allows any
+  corsOrigins?: string[];
+  port?: number;
+  // Read when authToken is not set
+  authTokenFile?: string;
+  // Serve without a token instead of generating one; loopback interfaces only
+  noAuth?: boolean;
+}
+
+export interface ACPPlanEntry {
+  content: string;
+  priority: 'high' | 'medium' | 'low';
+  status: 'pending' | 'in_progress' | 'completed';
+}
+
+export type ACPToolCallStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
+
+// Payload of a `session/update` notification
+export type ACPSessionUpdate =
+  | { sessionUpdate: 'agent_message_chunk'; content: { type: 'text'; text: string } }
+  | { sessionUpdate: 'agent_thought_chunk'; content: { type: 'text'; text: string } }
+  | {
+      sessionUpdate: 'tool_call';
+      toolCallId: string;
+      title: string;
+      kind: ACPToolInfo['kind'];
+      status: ACPToolCallStatus;
+      content?: ACPToolCallContent[];
+      locations?: ACPToolCallLocation[];
+      rawInput?: any;
+    }
+  | {
+      sessionUpdate: 'tool_call_update';
+      toolCallId: string;
+      status?: ACPToolCallStatus;
+      title?: string;
+      content?: ACPToolCallContent[];
+      locations?: ACPToolCallLocation[];
+      rawOutput?: any;
+    }
+  | { sessionUpdate: 'plan'; entries: ACPPlanEntry[] };
\ No newline at end of file
@@ -1,5 +1,7 @@
 // Cross-platform utilities for JSR compatibility
 
+import { LogLevel, rootLogger } from './logger.ts';
+
 // Try to import crypto.randomUUID for UUID generation
 const generateUUID = (): string => {
   if (typeof crypto !== 'undefined' && crypto.randomUUID) {
@@ -122,6 +124,19 @@ export function generateSessionId(): string {
   return generateUUID();
 }
 
+export function getEnv(name: string): string | undefined {
+  if (typeof process !== 'undefined' && process.env) {
+    return process.env[name];
+  }
+
+  try {
+    return (globalThis as any).Deno?.env.get(name);
+  } catch {
+    // Deno without --allow-env
+    return undefined;
+  }
+}
+
 export function sanitizePath(path: string): string {
   return path.replace(/\\/g, '/');
 }
@@ -135,19 +150,33 @@ export function joinPaths(base: string, path: string): string {
   const sanitizedPath = sanitizePath(path);
 
   if (isAbsolutePath(sanitizedPath)) {
-    return sanitizedPath;
+    return normalizePath(sanitizedPath);
   }
 
-  return `${sanitizedBase}/${sanitizedPath}`;
+  return normalizePath(`${sanitizedBase}/${sanitizedPath}`);
 }
 
-export function log(level: 'debug' | 'info' | 'warn' | 'error', message: string, ...args: any[]): void {
-  const timestamp = new Date().toISOString();
-  const formattedMessage = `[${timestamp}] [${level.toUpperCase()}] ${message}`;
+// Collapse `.`, `..` and repeated separators; `..` never climbs above an absolute root
+export function normalizePath(path: string): string {
+  const sanitized = sanitizePath(path);
+  const root = /^([A-Za-z]:)?\//.exec(sanitized)?.[0] || (/^[A-Za-z]:/.exec(sanitized)?.[0] ?? '');
+  const segments: string[] = [];
 
-  if (args.length > 0) {
-    console.error(formattedMessage, ...args);
-  } else {
-    console.error(formattedMessage);
+  for (const segment of sanitized.slice(root.length).split('/')) {
+    if (segment === '' || segment === '.') {
+      continue;
+    }
+    if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..') {
+      segments.pop();
+    } else if (segment !== '..' || !root) {
+      segments.push(segment);
+    }
   }
-}
\ No newline at end of file
+
+  return root + segments.join('/') || '.';
+}
+
+// Log through the shared logger; filtered by the level given to configureLogging
+export function log(level: LogLevel, message: string, ...args: any[]): void {
+  rootLogger.log(level, message, ...args);
+}
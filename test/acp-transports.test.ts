@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import './helpers.ts';
+import { WebSocketConnection } from '../src/acp-transports.ts';
+
+// A socket that records what the connection writes
+class FakeSocket extends EventEmitter {
+  written: Uint8Array[] = [];
+  ended = false;
+
+  write(data: Uint8Array): void {
+    this.written.push(data);
+  }
+
+  end(): void {
+    this.ended = true;
+  }
+}
+
+function textFrame(text: string, mask?: number[]): Uint8Array {
+  const payload = new TextEncoder().encode(text);
+  if (!mask) {
+    return new Uint8Array([0x81, payload.length, ...payload]);
+  }
+  return new Uint8Array([0x81, 0x80 | payload.length, ...mask, ...payload.map((byte, i) => byte ^ mask[i % 4])]);
+}
+
+const message = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: 1 } });
+
+test('masked client frames are delivered', async () => {
+  const socket = new FakeSocket();
+  const connection = new WebSocketConnection(socket);
+  socket.emit('data', textFrame(message, [0x12, 0x34, 0x56, 0x78]));
+  socket.emit('close');
+
+  const received = [];
+  for await (const item of connection.receive()) {
+    received.push(item);
+  }
+  assert.deepEqual(received, [JSON.parse(message)]);
+});
+
+test('an unmasked client frame closes the connection with 1002', async () => {
+  const socket = new FakeSocket();
+  const connection = new WebSocketConnection(socket);
+  socket.emit('data', textFrame(message));
+
+  const received = [];
+  for await (const item of connection.receive()) {
+    received.push(item);
+  }
+  assert.deepEqual(received, []);
+  assert.deepEqual(Array.from(socket.written.at(-1)!), [0x88, 2, 0x03, 0xea]);
+  assert.equal(socket.ended, true);
+});
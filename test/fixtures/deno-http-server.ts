@@ -0,0 +1,7 @@
+// Started by test/http-server.test.ts under Deno: `deno run --allow-net --allow-env --allow-read deno-http-server.ts <port>`
+import { createHttpServer } from '../../src/http-server.ts';
+import { echoHandler } from './echo-handler.ts';
+
+const server = await createHttpServer({ hostname: '127.0.0.1', maxBodySize: 64 });
+server.on('request', echoHandler);
+await server.listen(Number(Deno.args[0]), () => console.log('listening'));
@@ -0,0 +1,8 @@
+// Request handler shared by the Node and Deno HTTP server tests: answers after an await with
+// what it received, so the response is only correct when the server awaits handlers
+export async function echoHandler(req: { method: string; body?: string }, res: any): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  res.statusCode = 200;
+  res.headers = { 'Content-Type': 'application/json' };
+  res.body = JSON.stringify({ method: req.method, body: req.body });
+}
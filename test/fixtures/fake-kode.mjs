@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+// A stand-in for `kode tool-server --stdio`: answers the handshake and echoes tool calls back.
+// Flags: --exit (quit before the handshake), --reject (answer the handshake with an error),
+// --crash-on-tool (exit when a tool call arrives)
+
+import { createInterface } from 'node:readline';
+
+const flags = new Set(process.argv.slice(2));
+
+if (flags.has('--exit')) {
+  process.exit(3);
+}
+
+const send = (message) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+
+createInterface({ input: process.stdin }).on('line', (line) => {
+  const message = JSON.parse(line);
+
+  if (message.method === 'initialize') {
+    if (flags.has('--reject')) {
+      send({ id: message.id, error: { code: -32601, message: 'Method not found' } });
+    } else {
+      send({ id: message.id, result: { protocolVersion: message.params.protocolVersion } });
+    }
+    return;
+  }
+
+  if (message.method === 'tool/execute') {
+    if (flags.has('--crash-on-tool')) {
+      process.exit(1);
+    }
+    const { name, input, cwd } = message.params;
+    send({ id: message.id, result: { content: `fake-kode ${name} ${JSON.stringify(input)} in ${cwd}`, is_error: false } });
+  }
+});
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { request } from 'node:http';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { freePort } from './helpers.ts';
+import { configureLogging } from '../src/logger.ts';
+import { HttpAccessControl } from '../src/http-auth.ts';
+import { HttpRequest } from '../src/http-server.ts';
+import { createKodeAcpHttpServer } from '../src/http-server.ts';
+
+function req(url: string, headers: Record<string, string> = {}): HttpRequest {
+  return { method: 'POST', url, headers: { host: '127.0.0.1:8080', ...headers } };
+}
+
+// POST with an arbitrary Host header, which fetch does not allow setting
+function post(port: number, headers: Record<string, string>): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const client = request({ host: '127.0.0.1', port, method: 'POST', path: '/acp', headers }, (res) => {
+      res.resume();
+      resolve(res.statusCode || 0);
+    });
+    client.on('error', reject);
+    client.end(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: 1 } }));
+  });
+}
+
+test('requests need the bearer token, from the header or access_token', () => {
+  const access = new HttpAccessControl({ authToken: 'secret' });
+  assert.equal(access.check(req('/acp'))?.statusCode, 401);
+  assert.equal(access.check(req('/acp', { authorization: 'Bearer wrong' }))?.statusCode, 401);
+  assert.equal(access.check(req('/acp', { authorization: 'Bearer secretx' }))?.statusCode, 401);
+  assert.equal(access.check(req('/acp', { authorization: 'Bearer secret' })), null);
+  assert.equal(access.check(req('/acp/ws?access_token=secret')), null);
+});
+
+test('cross-origin requests need an allowed origin', () => {
+  const access = new HttpAccessControl({ authToken: 'secret', corsOrigins: ['http://localhost:3000'] });
+  const auth = { authorization: 'Bearer secret' };
+  assert.equal(access.check(req('/acp', { ...auth, origin: 'http://evil.example' }))?.statusCode, 403);
+  assert.equal(access.check(req('/acp', { ...auth, origin: 'http://localhost:3000' })), null);
+  assert.equal(access.corsHeaders(req('/acp', { origin: 'http://localhost:3000' }))['Access-Control-Allow-Origin'], 'http://localhost:3000');
+  assert.equal(access.preflight(req('/acp', { origin: 'http://evil.example' })).statusCode, 403);
+});
+
+test('a loopback server answers only to loopback Host names', () => {
+  const access = new HttpAccessControl({ noAuth: true });
+  for (const host of ['127.0.0.1:8080', 'localhost', 'LOCALHOST:3000', '[::1]:8080', '127.1.2.3']) {
+    assert.equal(access.check(req('/acp', { host })), null, host);
+  }
+  for (const host of ['evil.example', 'evil.example:8080', '127.0.0.1.evil.example', 'not a host']) {
+    assert.equal(access.check(req('/acp', { host }))?.statusCode, 403, host);
+  }
+
+  // Bound to another interface on purpose, any name reaches it
+  const exposed = new HttpAccessControl({ host: '0.0.0.0', authToken: 'secret' });
+  assert.equal(exposed.check(req('/acp', { host: 'agent.internal', authorization: 'Bearer secret' })), null);
+});
+
+test('the generated token goes to the console, not the log file', async () => {
+  const dir = mkdtempSync(join(tmpdir(), 'kode-acp-auth-'));
+  const logFile = join(dir, 'agent.log');
+  const printed: string[] = [];
+  const consoleError = console.error;
+  console.error = (...args: any[]) => {
+    printed.push(args.join(' '));
+  };
+  configureLogging({ level: 'debug', file: logFile });
+
+  const port = await freePort();
+  let server;
+  try {
+    server = await createKodeAcpHttpServer({ toolBackend: 'builtin' }, port, { hostname: '127.0.0.1' });
+  } finally {
+    console.error = consoleError;
+    configureLogging({ level: 'error' });
+  }
+
+  try {
+    const token = /Bearer ([0-9a-f]{64})/.exec(printed.join('\n'))?.[1];
+    assert.ok(token);
+    assert.ok(!readFileSync(logFile, 'utf8').includes(token));
+
+    assert.equal(await post(port, { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' }), 200);
+    assert.equal(await post(port, { Authorization: `Bearer ${token}`, Host: `evil.example:${port}` }), 403);
+  } finally {
+    await server.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
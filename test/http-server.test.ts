@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { createInterface } from 'node:readline';
+import { resolve } from 'node:path';
+import { freePort } from './helpers.ts';
+import { echoHandler } from './fixtures/echo-handler.ts';
+import { createHttpServer, createKodeAcpHttpServer } from '../src/http-server.ts';
+import { findExecutable } from '../src/process-manager.ts';
+
+const DENO = await findExecutable('deno');
+
+// POSTs bodies under and over the 64-byte limit the servers under test are given
+async function checkBodies(url: string): Promise<void> {
+  const small = await fetch(url, { method: 'POST', body: '{"hello":"world"}' });
+  assert.equal(small.status, 200);
+  assert.deepEqual(await small.json(), { method: 'POST', body: '{"hello":"world"}' });
+
+  const large = await fetch(url, { method: 'POST', body: 'x'.repeat(65) });
+  assert.equal(large.status, 413);
+  assert.match((await large.json()).error, /exceeds 64 bytes/);
+}
+
+test('node: handlers are awaited and get the request body', async () => {
+  const port = await freePort();
+  const server = await createHttpServer({ hostname: '127.0.0.1', maxBodySize: 64 });
+  server.on('request', echoHandler);
+  await server.listen(port);
+
+  try {
+    await checkBodies(`http://127.0.0.1:${port}/`);
+  } finally {
+    await server.close();
+  }
+});
+
+test('node: the ACP endpoint answers a posted JSON-RPC request', async () => {
+  const port = await freePort();
+  const server = await createKodeAcpHttpServer({ toolBackend: 'builtin', http: { authToken: 'secret' } }, port, { hostname: '127.0.0.1' });
+
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/acp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer secret' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: 1 } }),
+    });
+    assert.equal(response.status, 200);
+    const message = await response.json();
+    assert.equal(message.id, 1);
+    assert.equal(message.result.protocolVersion, 1);
+
+    const unauthorized = await fetch(`http://127.0.0.1:${port}/acp`, { method: 'POST', body: '{}' });
+    assert.equal(unauthorized.status, 401);
+  } finally {
+    await server.close();
+  }
+});
+
+test('node: the ACP endpoint requires a generated token unless --no-auth opts out', async () => {
+  const initialize = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: 1 } });
+
+  const port = await freePort();
+  const server = await createKodeAcpHttpServer({ toolBackend: 'builtin' }, port, { hostname: '127.0.0.1' });
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/acp`, { method: 'POST', body: initialize });
+    assert.equal(response.status, 401);
+  } finally {
+    await server.close();
+  }
+
+  const openPort = await freePort();
+  const open = await createKodeAcpHttpServer({ toolBackend: 'builtin', http: { noAuth: true } }, openPort, { hostname: '127.0.0.1' });
+  try {
+    const response = await fetch(`http://127.0.0.1:${openPort}/acp`, { method: 'POST', body: initialize });
+    assert.equal(response.status, 200);
+  } finally {
+    await open.close();
+  }
+
+  await assert.rejects(
+    createKodeAcpHttpServer({ toolBackend: 'builtin', http: { noAuth: true } }, openPort, { hostname: '0.0.0.0' }),
+    /Refusing to listen on 0.0.0.0 without an auth token/
+  );
+});
+
+test('deno: handlers are awaited and get the request body', { skip: !DENO && 'deno is not installed' }, async () => {
+  const port = await freePort();
+  const child = spawn(DENO!, [
+    'run', '--allow-net', '--allow-env', '--allow-read',
+    resolve('test/fixtures/deno-http-server.ts'), String(port),
+  ], { stdio: ['ignore', 'pipe', 'inherit'] });
+
+  try {
+    await new Promise<void>((resolveListening, reject) => {
+      createInterface({ input: child.stdout! }).on('line', (line) => {
+        if (line === 'listening') resolveListening();
+      });
+      child.once('exit', (code) => reject(new Error(`deno exited with code ${code}`)));
+    });
+    await checkBodies(`http://127.0.0.1:${port}/`);
+  } finally {
+    child.kill();
+  }
+});
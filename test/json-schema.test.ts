@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JsonSchema, validateJsonSchema } from '../src/json-schema.ts';
+import { validateToolInput } from '../src/tool-definitions.ts';
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    path: { type: 'string', minLength: 1 },
+    mode: { type: 'string', enum: ['read', 'write'] },
+    limit: { type: 'integer', minimum: 1, maximum: 100 },
+    options: {
+      type: 'object',
+      properties: { recursive: { type: 'boolean' } },
+      required: ['recursive'],
+      additionalProperties: false,
+    },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['path', 'mode'],
+};
+
+test('a matching value has no problems', () => {
+  assert.deepEqual(validateJsonSchema(schema, {
+    path: 'a.txt',
+    mode: 'read',
+    limit: 10,
+    options: { recursive: true },
+    tags: ['x', 'y'],
+  }), []);
+  // Optional properties may be null
+  assert.deepEqual(validateJsonSchema(schema, { path: 'a.txt', mode: 'write', limit: null }), []);
+});
+
+test('missing required fields are reported', () => {
+  assert.deepEqual(validateJsonSchema(schema, {}), ['path: required', 'mode: required']);
+  assert.deepEqual(validateJsonSchema(schema, { path: 'a', mode: null }), ['mode: required']);
+});
+
+test('type mismatches, enums and limits are reported', () => {
+  assert.deepEqual(validateJsonSchema(schema, 'a.txt'), ['input: expected an object, got "a.txt"']);
+  assert.deepEqual(validateJsonSchema(schema, { path: 42, mode: 'append', limit: 1.5 }), [
+    'path: expected a string, got 42',
+    'mode: expected one of read, write, got "append"',
+    'limit: expected an integer, got 1.5',
+  ]);
+  assert.deepEqual(validateJsonSchema(schema, { path: '', mode: 'read', limit: 101 }), [
+    'path: must not be empty',
+    'limit: must be at most 100, got 101',
+  ]);
+});
+
+test('nested objects and arrays are checked with their paths', () => {
+  assert.deepEqual(validateJsonSchema(schema, {
+    path: 'a',
+    mode: 'read',
+    options: { recursive: 'yes' },
+    tags: ['x', 2, null],
+  }), [
+    'options.recursive: expected a boolean, got "yes"',
+    'tags[1]: expected a string, got 2',
+    'tags[2]: expected a string, got null',
+  ]);
+  assert.deepEqual(validateJsonSchema(schema, { path: 'a', mode: 'read', options: [] }), [
+    'options: expected an object, got an array',
+  ]);
+});
+
+test('additionalProperties rejects or checks unlisted properties', () => {
+  assert.deepEqual(validateJsonSchema(schema, { path: 'a', mode: 'read', options: { recursive: true, depth: 2 } }), [
+    'options.depth: not allowed',
+  ]);
+  // Without the keyword, unlisted properties are accepted
+  assert.deepEqual(validateJsonSchema(schema, { path: 'a', mode: 'read', extra: 1 }), []);
+
+  const counts: JsonSchema = { type: 'object', additionalProperties: { type: 'number' } };
+  assert.deepEqual(validateJsonSchema(counts, { a: 1, b: 'two', constructor: 3 }), ['b: expected a number, got "two"']);
+});
+
+test('file tools take their path as file_path', () => {
+  assert.deepEqual(validateToolInput('FileRead', { file_path: 'a.txt' }), []);
+  assert.deepEqual(validateToolInput('FileRead', { abs_path: 'a.txt' }), ['file_path: required']);
+  assert.deepEqual(validateToolInput('Unknown', { anything: true }), []);
+});
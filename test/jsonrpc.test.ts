@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import './helpers.ts';
+import { JsonRpcPeer, JsonRpcResponse, serveJsonRpc } from '../src/jsonrpc.ts';
+
+test('requests waiting on the client fail once its input ends', async () => {
+  const sent: any[] = [];
+  const peer = new JsonRpcPeer(async (message) => {
+    sent.push(message);
+  });
+  const connection = {
+    async send(message: any) {
+      sent.push(message);
+    },
+    async *receive() {
+      // A prompt whose turn asks the client for permission, then end of input
+      yield { jsonrpc: '2.0', id: 1, method: 'session/prompt', params: {} };
+    },
+  };
+
+  await serveJsonRpc(
+    connection,
+    async (message): Promise<JsonRpcResponse> => {
+      await peer.request('session/request_permission', {});
+      return { jsonrpc: '2.0', id: message.id, result: {} };
+    },
+    () => peer.close('Client disconnected')
+  );
+
+  assert.equal(sent[0].method, 'session/request_permission');
+  assert.equal(sent[1].id, 1);
+  assert.equal(sent[1].error.data, 'Client disconnected');
+
+  // Later requests fail without being sent
+  await assert.rejects(peer.request('session/request_permission', {}), /Client disconnected/);
+  assert.equal(sent.length, 2);
+});
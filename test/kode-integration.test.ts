@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolve } from 'node:path';
+import './helpers.ts';
+import { KodeIntegration } from '../src/kode-integration.ts';
+import { KodeACPConfig } from '../src/types.ts';
+
+// npm test runs from the repository root
+const FAKE_KODE = resolve('test/fixtures/fake-kode.mjs');
+
+function fakeKode(toolBackend: KodeACPConfig['toolBackend'], ...flags: string[]): KodeIntegration {
+  return new KodeIntegration({
+    toolBackend,
+    kodeCommand: process.execPath,
+    kodeArgs: [FAKE_KODE, ...flags],
+    workingDirectory: process.cwd(),
+  });
+}
+
+const echo = { name: 'Bash', input: { command: 'echo built-in' }, id: 'call_1' };
+
+test('tool calls go to a subprocess that completed the handshake', async () => {
+  const kode = fakeKode('kode');
+  try {
+    await kode.initialize();
+    const result = await kode.executeTool(echo, { workingDirectory: process.cwd() });
+
+    assert.equal(result.tool_use_id, 'call_1');
+    assert.equal(result.is_error, false);
+    assert.equal(result.content, `fake-kode Bash {"command":"echo built-in"} in ${process.cwd()}`);
+  } finally {
+    await kode.cleanup();
+  }
+});
+
+test('auto falls back to the built-in tools when the subprocess exits before the handshake', async () => {
+  const kode = fakeKode('auto', '--exit');
+  try {
+    await kode.initialize();
+    const result = await kode.executeTool(echo);
+
+    assert.equal(result.is_error, false);
+    assert.match(String(result.content), /^built-in/);
+  } finally {
+    await kode.cleanup();
+  }
+});
+
+test('the kode backend refuses a subprocess that rejects the handshake', async () => {
+  const kode = fakeKode('kode', '--reject');
+  try {
+    await assert.rejects(kode.initialize(), /did not complete the Kode tool protocol handshake: Method not found/);
+  } finally {
+    await kode.cleanup();
+  }
+});
+
+test('requests in flight fail when the subprocess crashes', async () => {
+  const kode = fakeKode('kode', '--crash-on-tool');
+  try {
+    await kode.initialize();
+    await assert.rejects(kode.executeTool(echo), /Kode process exited \(code 1/);
+  } finally {
+    await kode.cleanup();
+  }
+});
+
+test('a request larger than the pipe buffer waits for it to drain', async () => {
+  const kode = fakeKode('kode');
+  try {
+    await kode.initialize();
+    const content = 'x'.repeat(5 * 1024 * 1024);
+    const result = await kode.executeTool({ name: 'FileWrite', input: { file_path: 'big.txt', content }, id: 'call_big' });
+
+    assert.equal(result.is_error, false);
+    assert.equal(String(result.content).length, `fake-kode FileWrite ${JSON.stringify({ file_path: 'big.txt', content })} in ${process.cwd()}`.length);
+  } finally {
+    await kode.cleanup();
+  }
+});
+
+test('writing to a subprocess that exited fails the request instead of the agent', async () => {
+  const kode = fakeKode('kode', '--crash-on-tool');
+  try {
+    await kode.initialize();
+    const content = 'x'.repeat(5 * 1024 * 1024);
+    await assert.rejects(
+      kode.executeTool({ name: 'FileWrite', input: { file_path: 'big.txt', content }, id: 'call_big' }),
+      /Kode process (exited|is not accepting requests)/
+    );
+  } finally {
+    await kode.cleanup();
+  }
+});
+
+test('models are offered only the tools the current backend runs', async () => {
+  const builtin = new KodeIntegration({ toolBackend: 'builtin', workingDirectory: process.cwd() });
+  const kode = fakeKode('kode');
+  try {
+    await builtin.initialize();
+    const offered = (await builtin.getToolDefinitions()).map((tool) => tool.name);
+    assert.ok(offered.includes('FileRead'));
+    for (const name of ['Task', 'WebSearch', 'WebFetch', 'AskExpertModelTool']) {
+      assert.ok(!offered.includes(name), name);
+    }
+
+    const task = await builtin.executeTool({ name: 'Task', input: { description: 'd', prompt: 'p' }, id: 'call_task' });
+    assert.equal(task.is_error, true);
+    assert.match(String(task.content), /needs the Kode subprocess/);
+
+    await kode.initialize();
+    assert.ok((await kode.getAvailableTools()).includes('WebFetch'));
+  } finally {
+    await builtin.cleanup();
+    await kode.cleanup();
+  }
+});
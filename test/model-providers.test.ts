@@ -0,0 +1,174 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { sendEvents, sendJson, startStubServer } from './helpers.ts';
+import { AnthropicProvider, GoogleProvider, ModelProviderError, OpenAIProvider } from '../src/model-providers.ts';
+import { MultiModelManager, ModelProfile } from '../src/multi-model.ts';
+
+const tool = {
+  name: 'FileRead',
+  description: 'Read a file',
+  input_schema: { type: 'object', properties: { file_path: { type: 'string' } }, required: ['file_path'] },
+};
+
+test('anthropic: sends the request fields and assembles a streamed reply', async () => {
+  const server = await startStubServer((_request, res) => sendEvents(res, [
+    { type: 'message_start', message: { usage: { input_tokens: 12 } } },
+    { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Let me ' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'look.' } },
+    { type: 'content_block_stop', index: 0 },
+    { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'FileRead' } },
+    { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"file_path":' } },
+    { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"a.ts"}' } },
+    { type: 'content_block_stop', index: 1 },
+    { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 7 } },
+  ]));
+
+  try {
+    const profile: ModelProfile = { name: 'test', provider: 'anthropic', model: 'claude-test', apiKey: 'sk-test', baseUrl: server.url };
+    const chunks: string[] = [];
+    const response = await new AnthropicProvider().createMessage(profile, {
+      messages: [{ role: 'user', content: 'Read a.ts' }],
+      systemPrompt: 'Be brief',
+      temperature: 0.2,
+      maxTokens: 256,
+      tools: [tool],
+      onText: (chunk) => chunks.push(chunk),
+    });
+
+    const [request] = server.requests;
+    assert.equal(request.url, '/v1/messages');
+    assert.equal(request.headers['x-api-key'], 'sk-test');
+    assert.equal(request.headers['anthropic-version'], '2023-06-01');
+    assert.equal(request.body.model, 'claude-test');
+    assert.equal(request.body.system, 'Be brief');
+    assert.equal(request.body.temperature, 0.2);
+    assert.equal(request.body.max_tokens, 256);
+    assert.deepEqual(request.body.tools, [tool]);
+
+    assert.deepEqual(chunks, ['Let me ', 'look.']);
+    assert.deepEqual(response.content, [
+      { type: 'text', text: 'Let me look.' },
+      { type: 'tool_use', id: 'toolu_1', name: 'FileRead', input: { file_path: 'a.ts' } },
+    ]);
+    assert.equal(response.stopReason, 'tool_use');
+    assert.deepEqual(response.usage, { inputTokens: 12, outputTokens: 7 });
+  } finally {
+    await server.close();
+  }
+});
+
+test('openai: puts the system prompt first and joins streamed tool call fragments', async () => {
+  const server = await startStubServer((_request, res) => sendEvents(res, [
+    { choices: [{ delta: { content: 'Checking' } }] },
+    { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'FileRead', arguments: '{"file_' } }] } }] },
+    { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'path":"b.ts"}' } }] }, finish_reason: 'tool_calls' }] },
+    { choices: [], usage: { prompt_tokens: 5, completion_tokens: 3 } },
+    '[DONE]',
+  ]));
+
+  try {
+    const profile: ModelProfile = { name: 'test', provider: 'openai', model: 'gpt-test', apiKey: 'sk-openai', baseUrl: server.url };
+    const response = await new OpenAIProvider().createMessage(profile, {
+      messages: [{ role: 'user', content: 'Read b.ts' }],
+      systemPrompt: 'Be brief',
+      temperature: 0,
+      maxTokens: 100,
+      tools: [tool],
+    });
+
+    const [request] = server.requests;
+    assert.equal(request.url, '/chat/completions');
+    assert.equal(request.headers.authorization, 'Bearer sk-openai');
+    assert.deepEqual(request.body.messages, [
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'Read b.ts' },
+    ]);
+    assert.equal(request.body.temperature, 0);
+    assert.equal(request.body.max_tokens, 100);
+    assert.equal(request.body.tools[0].function.name, 'FileRead');
+
+    assert.deepEqual(response.content, [
+      { type: 'text', text: 'Checking' },
+      { type: 'tool_use', id: 'call_1', name: 'FileRead', input: { file_path: 'b.ts' } },
+    ]);
+    assert.equal(response.stopReason, 'tool_use');
+    assert.deepEqual(response.usage, { inputTokens: 5, outputTokens: 3 });
+  } finally {
+    await server.close();
+  }
+});
+
+test('google: sends the system instruction and generation config', async () => {
+  const server = await startStubServer((_request, res) => sendEvents(res, [
+    { candidates: [{ content: { parts: [{ text: 'Hello' }] } }] },
+    { candidates: [{ content: { parts: [{ text: ' there' }] }, finishReason: 'STOP' }], usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 2 } },
+  ]));
+
+  try {
+    const profile: ModelProfile = { name: 'test', provider: 'google', model: 'gemini-test', apiKey: 'g-key', baseUrl: server.url };
+    const response = await new GoogleProvider().createMessage(profile, {
+      messages: [{ role: 'user', content: 'Hi' }],
+      systemPrompt: 'Be brief',
+      temperature: 0.5,
+      maxTokens: 64,
+    });
+
+    const [request] = server.requests;
+    assert.equal(request.url, '/models/gemini-test:streamGenerateContent?alt=sse');
+    assert.equal(request.headers['x-goog-api-key'], 'g-key');
+    assert.deepEqual(request.body.systemInstruction, { parts: [{ text: 'Be brief' }] });
+    assert.deepEqual(request.body.generationConfig, { maxOutputTokens: 64, temperature: 0.5 });
+
+    assert.deepEqual(response.content, [{ type: 'text', text: 'Hello there' }]);
+    assert.equal(response.stopReason, 'end_turn');
+    assert.deepEqual(response.usage, { inputTokens: 4, outputTokens: 2 });
+  } finally {
+    await server.close();
+  }
+});
+
+test('provider errors surface with the status and the provider message', async () => {
+  const server = await startStubServer((_request, res) =>
+    sendJson(res, 429, { error: { type: 'rate_limit_error', message: 'Slow down' } })
+  );
+
+  try {
+    const profile: ModelProfile = { name: 'test', provider: 'anthropic', model: 'claude-test', apiKey: 'sk-test', baseUrl: server.url };
+    await assert.rejects(
+      new AnthropicProvider().createMessage(profile, { messages: [{ role: 'user', content: 'Hi' }] }),
+      (error: unknown) => {
+        assert.ok(error instanceof ModelProviderError);
+        assert.equal(error.status, 429);
+        assert.equal(error.provider, 'anthropic');
+        assert.match(error.message, /Slow down/);
+        return true;
+      }
+    );
+  } finally {
+    await server.close();
+  }
+});
+
+test('executeWithModel uses a configured OpenAI-compatible profile and the profile defaults', async () => {
+  const server = await startStubServer((_request, res) => sendJson(res, 200, {
+    choices: [{ message: { content: 'pong' }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 1, completion_tokens: 1 },
+  }));
+
+  try {
+    const manager = new MultiModelManager({
+      models: { local: { provider: 'openai-compatible', model: 'llama-test', baseUrl: `${server.url}/v1`, temperature: 0.7, maxTokens: 32 } },
+    });
+    const text = await manager.executeWithModel('ping', 'local');
+
+    assert.equal(text, 'pong');
+    const [request] = server.requests;
+    assert.equal(request.url, '/v1/chat/completions');
+    assert.equal(request.body.model, 'llama-test');
+    assert.equal(request.body.temperature, 0.7);
+    assert.equal(request.body.max_tokens, 32);
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import './helpers.ts';
+import { PathSandbox, PathSandboxError } from '../src/path-sandbox.ts';
+import { BuiltinToolExecutor } from '../src/builtin-tools.ts';
+
+// A workspace with a file beside it and a symlink from inside it to the outside directory
+async function withWorkspace(run: (dirs: { workspace: string; outside: string }) => Promise<void>): Promise<void> {
+  const root = mkdtempSync(join(tmpdir(), 'kode-acp-sandbox-'));
+  const dirs = { workspace: join(root, 'workspace'), outside: join(root, 'outside') };
+  mkdirSync(join(dirs.workspace, 'src'), { recursive: true });
+  mkdirSync(dirs.outside);
+  writeFileSync(join(dirs.workspace, 'src', 'inside.txt'), 'inside');
+  writeFileSync(join(dirs.outside, 'secret.txt'), 'secret');
+  writeFileSync(join(root, 'secret.txt'), 'secret');
+  symlinkSync(dirs.outside, join(dirs.workspace, 'link'));
+  try {
+    await run(dirs);
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+test('paths that climb out of the working directory are refused', async () => {
+  await withWorkspace(async ({ workspace, outside }) => {
+    const sandbox = new PathSandbox(workspace);
+    assert.equal(sandbox.resolve('src/inside.txt'), join(workspace, 'src', 'inside.txt'));
+    assert.equal(sandbox.resolve('src/new/file.txt'), join(workspace, 'src', 'new', 'file.txt'));
+    assert.throws(() => sandbox.resolve('../secret.txt'), PathSandboxError);
+    assert.throws(() => sandbox.resolve('src/../../secret.txt'), PathSandboxError);
+    assert.throws(() => sandbox.resolve('/etc/passwd'), PathSandboxError);
+
+    // Allowlisted directories are reachable
+    assert.equal(new PathSandbox(workspace, [outside]).resolve(join(outside, 'secret.txt')), join(outside, 'secret.txt'));
+  });
+});
+
+test('symlinks are followed before the check', async () => {
+  await withWorkspace(async ({ workspace }) => {
+    const sandbox = new PathSandbox(workspace);
+    assert.throws(() => sandbox.resolve('link/secret.txt'), PathSandboxError);
+    assert.throws(() => sandbox.resolve('link/new-file.txt'), PathSandboxError);
+    assert.equal(sandbox.contains(join(workspace, 'link')), false);
+  });
+});
+
+test('glob patterns cannot reach outside the working directory', async () => {
+  await withWorkspace(async ({ workspace }) => {
+    const sandbox = new PathSandbox(workspace);
+    for (const pattern of ['../*.txt', '*/../../*.txt', '{..,x}/*.txt', '@(..)/*.txt', '+(..|x)/*.txt', '.{.,}/*.txt', '/etc/*', 'link/*']) {
+      assert.throws(() => sandbox.checkGlobPattern(pattern, workspace), PathSandboxError, pattern);
+    }
+    sandbox.checkGlobPattern('src/**/*.{txt,md}', workspace);
+    sandbox.checkGlobPattern('@(src|lib)/*.txt', workspace);
+
+    const tools = new BuiltinToolExecutor({ workingDirectory: workspace });
+    const glob = (pattern: string) => tools.execute({ name: 'Glob', input: { pattern }, id: 'glob' }, { workingDirectory: workspace });
+
+    const escaped = await glob('{..,x}/*.txt');
+    assert.equal(escaped.is_error, true);
+    assert.match(String(escaped.content), /Access denied/);
+
+    // Matches reached through a symlink are dropped from the results
+    const listed = await glob('*/*.txt');
+    assert.equal(listed.is_error, false);
+    assert.equal(listed.content, join('src', 'inside.txt'));
+  });
+});
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import './helpers.ts';
+import { SessionManager } from '../src/session-manager.ts';
+import { PermissionDecision } from '../src/tool-converter.ts';
+
+test('concurrent sessions in different permission modes do not share decisions', async () => {
+  const sessions = new SessionManager();
+  try {
+    const safe = await sessions.createSession({ permissionMode: 'safe' });
+    const yolo = await sessions.createSession({ permissionMode: 'yolo' });
+
+    // Creating the second session leaves the first one's mode alone
+    assert.equal((await sessions.getSession(safe))?.mode, 'default');
+    assert.equal((await sessions.getSession(yolo))?.mode, 'bypass_permissions');
+
+    const prompts: string[] = [];
+    const ask = (decision: PermissionDecision) => async (toolName: string) => {
+      prompts.push(toolName);
+      return decision;
+    };
+
+    assert.equal(await sessions.checkToolPermission(yolo, 'Bash', { command: 'ls' }, ask('reject_once')), true);
+    assert.equal(await sessions.checkToolPermission(safe, 'Bash', { command: 'ls' }, ask('reject_always')), false);
+    assert.deepEqual(prompts, ['Bash']);
+
+    // The safe session remembers its rejection; the yolo session still runs Bash unprompted
+    assert.equal(await sessions.checkToolPermission(safe, 'Bash', {}, ask('allow_once')), false);
+    assert.equal(await sessions.checkToolPermission(yolo, 'Bash', {}, ask('reject_once')), true);
+    assert.deepEqual(prompts, ['Bash']);
+
+    // Changing one session's mode clears only that session's decisions
+    await sessions.updateSession(yolo, { mode: 'plan' });
+    assert.equal(await sessions.checkToolPermission(yolo, 'FileWrite', {}), false);
+    assert.equal(sessions.getPermissionManager(safe)?.getPermission('Bash')?.persistent, true);
+  } finally {
+    await sessions.destroyAllSessions();
+  }
+});
+
+test('decisions remembered under a command key do not cover other commands', async () => {
+  const sessions = new SessionManager();
+  try {
+    const safe = await sessions.createSession({ permissionMode: 'safe' });
+    const prompts: string[] = [];
+    const ask = (decision: PermissionDecision) => async (_toolName: string, input: any) => {
+      prompts.push(input.command);
+      return decision;
+    };
+    const check = (command: string, decision: PermissionDecision) =>
+      sessions.checkToolPermission(safe, 'Bash', { command }, ask(decision), `Bash:${command}`);
+
+    assert.equal(await check('make test', 'allow_always'), true);
+    assert.equal(await check('make test', 'reject_once'), true);
+    assert.equal(await check('curl https://example.com', 'reject_once'), false);
+    assert.deepEqual(prompts, ['make test', 'curl https://example.com']);
+    assert.equal(sessions.getPermissionManager(safe)?.getPermission('Bash'), undefined);
+  } finally {
+    await sessions.destroyAllSessions();
+  }
+});
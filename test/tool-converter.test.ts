@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import './helpers.ts';
+import { ACPToolConverter } from '../src/tool-converter.ts';
+
+test('sessions that reuse a tool call id get their own results back', () => {
+  const converter = new ACPToolConverter();
+
+  const first = converter.convertToKode({ id: 'call_1', name: 'read_file', input: { path: 'a.txt' } }, 'session-a');
+  const second = converter.convertToKode({ id: 'call_1', name: 'read_file', input: { path: 'b.txt' } }, 'session-b');
+  assert.equal(first?.id, 'call_1');
+  assert.equal(second?.id, 'call_1');
+
+  const result = { type: 'tool_result' as const, tool_use_id: 'call_1', content: 'text', is_error: false };
+  assert.equal(converter.convertFromKode(result, 'session-b').path, 'b.txt');
+  assert.equal(converter.convertFromKode(result, 'session-a').path, 'a.txt');
+
+  // Both entries are gone, so a late result falls back to the plain shape
+  assert.equal(converter.convertFromKode(result, 'session-a').path, undefined);
+});